@@ -1,7 +1,19 @@
+import { useEffect } from 'react';
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { useSyncStore } from '../../stores/syncStore';
 
 export default function TabLayout() {
+  const { user } = useAuthStore();
+  const startSync = useSyncStore(state => state.start);
+
+  useEffect(() => {
+    if (user) {
+      startSync(user.uid);
+    }
+  }, [user, startSync]);
+
   return (
     <Tabs
       screenOptions={{
@@ -34,6 +46,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="search"
+        options={{
+          title: 'Search',
+          tabBarIcon: ({ size, color }) => (
+            <Ionicons name="search" size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -1,27 +1,57 @@
 import { View, Text, StyleSheet, ScrollView, Pressable, Modal, RefreshControl } from 'react-native';
 import { useState, useEffect, useCallback } from 'react';
-import { Exercise, fetchExercises } from '../../lib/exercises';
+import { Exercise, documentExercises, fetchExercises, getCachedExercises, organizeExercise } from '../../lib/exercises';
+import { Organization, collectTags, matchesFilter, suggestTags } from '../../lib/folders';
+import { getCachedDocumentRecords } from '../../lib/documents';
+import { isTrashed } from '../../lib/trash';
+import { itemKey } from '../../lib/sync';
 import { useAuthStore } from '../../stores/authStore';
+import { useSyncStore } from '../../stores/syncStore';
+import { useFolderStore } from '../../stores/folderStore';
 import ExerciseViewer from '../../components/ExerciseViewer';
+import SyncBadge from '../../components/SyncBadge';
+import FilterBar from '../../components/FilterBar';
+import OrganizeModal from '../../components/OrganizeModal';
+import ExportModal from '../../components/ExportModal';
+import { Ionicons } from '@expo/vector-icons';
 
 export default function ExercisesScreen() {
   const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [trashedIds, setTrashedIds] = useState<string[]>([]);
+  const [documentTitles, setDocumentTitles] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null);
+  const [organizing, setOrganizing] = useState<Exercise | null>(null);
+  const [exporting, setExporting] = useState<Exercise | null>(null);
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const { user } = useAuthStore();
+  const { folders, load: loadFolders } = useFolderStore();
+  const online = useSyncStore(state => state.online);
+  const syncStates = useSyncStore(state => state.states);
 
   useEffect(() => {
     if (user) {
+      loadFolders(user.uid);
       loadExercises();
     }
-  }, [user]);
+  }, [user, loadFolders]);
 
   const loadExercises = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
+      // Exercises of documents in the trash are hidden along with the document
+      const records = await getCachedDocumentRecords(user.uid);
+      setTrashedIds(records.filter(isTrashed).map(record => record.id));
+      setDocumentTitles(Object.fromEntries(records.map(record => [record.id, record.title])));
+      const cached = await getCachedExercises(user.uid);
+      if (cached.length > 0) {
+        setExercises(cached);
+        setLoading(false);
+      }
       const fetchedExercises = await fetchExercises(user.uid);
       setExercises(fetchedExercises);
     } catch (error) {
@@ -31,6 +61,27 @@ export default function ExercisesScreen() {
     }
   };
 
+  const activeExercises = exercises.filter(exercise => !trashedIds.includes(exercise.documentId ?? exercise.id));
+  const visibleExercises = activeExercises.filter(exercise =>
+    matchesFilter(exercise, folders, folderFilter, tagFilter)
+  );
+
+  // Sets are listed under the document they were analyzed from
+  const documentIds = [...new Set(visibleExercises.map(exercise => exercise.documentId ?? exercise.id))];
+  const groups = documentIds.map(documentId => ({
+    documentId,
+    title: documentTitles[documentId] ?? 'Unknown document',
+    exercises: documentExercises(visibleExercises, documentId),
+  }));
+
+  const handleOrganize = async (organization: Organization) => {
+    if (!user || !organizing) return;
+
+    const organized = await organizeExercise(user.uid, organizing, organization);
+    setExercises(prev => prev.map(exercise => (exercise.id === organized.id ? organized : exercise)));
+    setOrganizing(null);
+  };
+
   const onRefresh = useCallback(async () => {
     if (!user) return;
 
@@ -48,6 +99,18 @@ export default function ExercisesScreen() {
   return (
     <View style={styles.container}>
       <Text style={styles.header}>Your Exercises</Text>
+      {!online && (
+        <Text style={styles.offlineText}>
+          You're offline. Changes are saved on this device and synced when you reconnect.
+        </Text>
+      )}
+      <FilterBar
+        tags={collectTags(activeExercises)}
+        folderId={folderFilter}
+        tag={tagFilter}
+        onFolderChange={setFolderFilter}
+        onTagChange={setTagFilter}
+      />
       <ScrollView 
         style={styles.scrollContainer}
         refreshControl={
@@ -62,30 +125,65 @@ export default function ExercisesScreen() {
       >
         {loading && !refreshing ? (
           <Text style={styles.emptyText}>Loading exercises...</Text>
-        ) : exercises.length === 0 ? (
+        ) : activeExercises.length === 0 ? (
           <Text style={styles.emptyText}>
             No exercises found. Analyze a document to get started!
           </Text>
+        ) : visibleExercises.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No exercises match this filter
+          </Text>
         ) : (
-          exercises.map((exercise) => (
-            <Pressable
-              key={exercise.id}
-              style={({ pressed }) => [
-                styles.exerciseCard,
-                pressed && styles.exerciseCardPressed,
-              ]}
-              onPress={() => setSelectedExercise(exercise)}
-            >
-              <Text style={styles.exerciseTitle}>{exercise.title}</Text>
-              <Text style={styles.exerciseDescription}>{exercise.description}</Text>
-              <View style={styles.metadataContainer}>
-                <Text style={styles.metadataItem}>Difficulty: {exercise.difficulty}</Text>
-                <Text style={styles.metadataItem}>Subject: {exercise.subject}</Text>
-                <Text style={styles.metadataItem}>
-                  Total Exercises: {exercise.totalExercises}
-                </Text>
+          groups.map(group => (
+            <View key={group.documentId} style={styles.documentGroup}>
+              <View style={styles.documentHeader}>
+                <Ionicons name="document-text-outline" size={18} color="#64748b" />
+                <Text style={styles.documentTitle} numberOfLines={1}>{group.title}</Text>
+                {group.exercises.length > 1 && (
+                  <Text style={styles.setCount}>{group.exercises.length} sets</Text>
+                )}
               </View>
-            </Pressable>
+              {group.exercises.map((exercise) => (
+                <Pressable
+                  key={exercise.id}
+                  style={({ pressed }) => [
+                    styles.exerciseCard,
+                    pressed && styles.exerciseCardPressed,
+                  ]}
+                  onPress={() => setSelectedExercise(exercise)}
+                >
+                  <View style={styles.titleRow}>
+                    <Text style={styles.exerciseTitle}>{exercise.title}</Text>
+                    <SyncBadge state={syncStates[itemKey('exercises', exercise.id)]} />
+                    <Pressable onPress={() => setExporting(exercise)} hitSlop={8}>
+                      <Ionicons name="share-outline" size={20} color="#6366f1" />
+                    </Pressable>
+                    <Pressable onPress={() => setOrganizing(exercise)} hitSlop={8}>
+                      <Ionicons name="folder-outline" size={20} color="#6366f1" />
+                    </Pressable>
+                  </View>
+                  <Text style={styles.exerciseDescription}>{exercise.description}</Text>
+                  <View style={styles.metadataContainer}>
+                    <Text style={styles.metadataItem}>Difficulty: {exercise.difficulty}</Text>
+                    <Text style={styles.metadataItem}>Subject: {exercise.subject}</Text>
+                    <Text style={styles.metadataItem}>
+                      Total Exercises: {exercise.totalExercises}
+                    </Text>
+                    {exercise.staleSince && (
+                      <Text style={[styles.metadataItem, styles.staleItem]}>Outdated</Text>
+                    )}
+                    {folders.some(folder => folder.id === exercise.folderId) && (
+                      <Text style={[styles.metadataItem, styles.labelItem]}>
+                        {folders.find(folder => folder.id === exercise.folderId)?.name}
+                      </Text>
+                    )}
+                    {(exercise.tags ?? []).map(tag => (
+                      <Text key={tag} style={[styles.metadataItem, styles.labelItem]}>#{tag}</Text>
+                    ))}
+                  </View>
+                </Pressable>
+              ))}
+            </View>
           ))
         )}
       </ScrollView>
@@ -103,6 +201,22 @@ export default function ExercisesScreen() {
           />
         )}
       </Modal>
+
+      <OrganizeModal
+        visible={!!organizing}
+        itemName={organizing?.title ?? ''}
+        organization={organizing ?? {}}
+        suggestedTags={organizing ? suggestTags(organizing.subject, organizing.title, organizing.tags) : []}
+        onSave={handleOrganize}
+        onCancel={() => setOrganizing(null)}
+      />
+
+      <ExportModal
+        visible={!!exporting}
+        title={exporting?.title ?? ''}
+        exercise={exporting ?? undefined}
+        onClose={() => setExporting(null)}
+      />
     </View>
   );
 }
@@ -118,7 +232,14 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     marginTop: 60,
     marginHorizontal: 20,
-    marginBottom: 30,
+    marginBottom: 20,
+  },
+  offlineText: {
+    color: '#64748b',
+    fontSize: 14,
+    marginHorizontal: 20,
+    marginTop: -16,
+    marginBottom: 16,
   },
   scrollContainer: {
     flex: 1,
@@ -130,6 +251,25 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginTop: 40,
   },
+  documentGroup: {
+    marginBottom: 8,
+  },
+  documentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  documentTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  setCount: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
   exerciseCard: {
     backgroundColor: '#ffffff',
     borderRadius: 16,
@@ -148,7 +288,14 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     transform: [{ scale: 0.98 }],
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   exerciseTitle: {
+    flex: 1,
     fontSize: 20,
     fontWeight: '600',
     color: '#1e293b',
@@ -172,4 +319,12 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 16,
   },
+  labelItem: {
+    color: '#64748b',
+    backgroundColor: '#f1f5f9',
+  },
+  staleItem: {
+    color: '#92400e',
+    backgroundColor: '#fef3c7',
+  },
 });
\ No newline at end of file
@@ -3,34 +3,89 @@ import { useState, useEffect } from 'react';
 import PDFCard from '../../components/PDFCard';
 import ContentViewer from '../../components/ContentViewer';
 import UploadBar from '../../components/UploadBar';
-import { PDFDocument, fetchStoredDocuments, saveDocument, clearDocumentCache } from '../../lib/documents';
-import { Exercise, fetchExercises } from '../../lib/exercises';
+import RenameModal from '../../components/RenameModal';
+import TrashModal from '../../components/TrashModal';
+import FilterBar from '../../components/FilterBar';
+import OrganizeModal from '../../components/OrganizeModal';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  DocumentRecord,
+  PDFDocument,
+  fetchDocumentRecords,
+  fetchDocumentContent,
+  cacheDocumentContent,
+  getCachedDocumentRecords,
+  saveDocumentRecord,
+  renameDocument,
+  organizeDocument,
+} from '../../lib/documents';
+import { Organization, collectTags, matchesFilter, suggestTags } from '../../lib/folders';
+import { isTrashed, moveToTrash, purgeDocument, purgeExpiredTrash, restoreFromTrash } from '../../lib/trash';
+import { Exercise, documentExercises, fetchExercises, getCachedExercises, organizeExercise } from '../../lib/exercises';
+import { itemKey } from '../../lib/sync';
+import { migrateDocumentIds } from '../../lib/documentMigration';
 import { useAuthStore } from '../../stores/authStore';
+import { useUploadQueueStore } from '../../stores/uploadQueueStore';
+import { useSyncStore } from '../../stores/syncStore';
+import { useFolderStore } from '../../stores/folderStore';
+import { isActiveJob } from '../../lib/uploadJobs';
 
 export default function HomeScreen() {
-  const [documents, setDocuments] = useState<PDFDocument[]>([]);
+  const [documents, setDocuments] = useState<DocumentRecord[]>([]);
+  const [selectedRecord, setSelectedRecord] = useState<DocumentRecord | null>(null);
   const [selectedDoc, setSelectedDoc] = useState<PDFDocument | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [loading, setLoading] = useState(true);
+  const [renaming, setRenaming] = useState<DocumentRecord | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [organizing, setOrganizing] = useState<DocumentRecord | null>(null);
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const { user } = useAuthStore();
+  const { folders, load: loadFolders } = useFolderStore();
+  const uploadJobs = useUploadQueueStore(state => state.jobs);
+  const activeJobs = uploadJobs.filter(isActiveJob);
+  const online = useSyncStore(state => state.online);
+  const syncStates = useSyncStore(state => state.states);
+  const activeDocuments = documents.filter(record => !isTrashed(record));
+  const visibleDocuments = activeDocuments.filter(record =>
+    matchesFilter(record, folders, folderFilter, tagFilter)
+  );
+  const trashedDocuments = documents.filter(isTrashed);
 
   useEffect(() => {
-    if (user) {
-      loadDocuments(true); // Force refresh on initial load
-      loadExercises();
-    }
-  }, [user]);
+    if (!user) return;
+
+    loadFolders(user.uid);
+    // Older documents are moved to generated ids before anything is listed
+    migrateDocumentIds(user.uid)
+      .catch(error => console.error('Error migrating documents:', error))
+      .finally(() => {
+        loadDocuments(true);
+        loadExercises();
+      });
+  }, [user, loadFolders]);
+
+  const showReady = (records: DocumentRecord[]) =>
+    setDocuments(records.filter(record => record.state === 'ready'));
 
-  const loadDocuments = async (forceRefresh = false) => {
+  // Cached records are shown right away and replaced once the server answers
+  const loadDocuments = async (showCached = false) => {
     if (!user) return;
     
     setLoading(true);
     try {
-      if (forceRefresh) {
-        await clearDocumentCache();
+      if (showCached) {
+        const cached = await getCachedDocumentRecords(user.uid);
+        if (cached.length > 0) {
+          showReady(cached);
+          setLoading(false);
+        }
       }
-      const docs = await fetchStoredDocuments(user.uid, forceRefresh);
-      setDocuments(docs);
+      const records = await fetchDocumentRecords(user.uid);
+      const purged = await purgeExpiredTrash(user.uid, records);
+      showReady(records.filter(record => !purged.includes(record.id)));
     } catch (error) {
       console.error('Error loading documents:', error);
     } finally {
@@ -39,91 +94,263 @@ export default function HomeScreen() {
   };
 
   const loadExercises = async () => {
-    if (!user) return;
+    if (!user) return [];
 
     try {
       console.log('Loading exercises for user:', user.uid);
+      setExercises(await getCachedExercises(user.uid));
       const fetchedExercises = await fetchExercises(user.uid);
       console.log('Loaded exercises:', fetchedExercises);
       setExercises(fetchedExercises);
+      return fetchedExercises;
     } catch (error) {
       console.error('Error loading exercises:', error);
+      return [];
     }
   };
 
-  const handleNewDocument = async (title: string, content: string) => {
+  const handleNewDocument = async (title: string, content: string, documentId?: string) => {
     if (!user) return;
 
-    const newDoc: PDFDocument = {
-      id: Date.now().toString(),
-      title,
-      content,
-      timestamp: Date.now(),
-    };
-
     try {
-      await saveDocument(user.uid, newDoc);
-      setDocuments(prev => [newDoc, ...prev]);
+      // Re-uploads of the same content are already in the list, or come back from the trash.
+      // Recognizing a document again also lands here, with a new version of its content
+      const existing = documents.find(doc => doc.id === documentId);
+      if (existing) {
+        if (isTrashed(existing)) {
+          await handleRestore(existing);
+        } else {
+          await Promise.all([loadDocuments(), loadExercises()]);
+        }
+        return;
+      }
+
+      if (documentId) {
+        // Cache the content we already have so opening the card doesn't download it again
+        await cacheDocumentContent(user.uid, documentId, content);
+      }
+      await loadDocuments();
     } catch (error) {
       console.error('Error saving new document:', error);
     }
   };
 
-  const findExerciseForDocument = (doc: PDFDocument): Exercise | undefined => {
-    const docId = doc.title.replace(/\.pdf$/, '');
-    const exercise = exercises.find(ex => ex.id === docId);
-    console.log('Finding exercise for document:', docId, 'Found:', exercise);
-    return exercise;
+  const openDocument = async (record: DocumentRecord) => {
+    if (!user) return;
+
+    setSelectedRecord(record);
+    setSelectedDoc(null);
+    setOpenError(null);
+
+    try {
+      setSelectedDoc(await fetchDocumentContent(user.uid, record));
+    } catch (error) {
+      console.error('Error opening document:', error);
+      setOpenError('Could not load this document');
+    }
+  };
+
+  const closeDocument = () => {
+    setSelectedRecord(null);
+    setSelectedDoc(null);
+  };
+
+
+  const handleContentSaved = async (content: string) => {
+    setSelectedDoc(prev => (prev ? { ...prev, content } : prev));
+    await Promise.all([loadDocuments(), loadExercises()]);
+  };
+
+  const handleAnalysisComplete = async () => {
+    if (user && selectedRecord && !selectedRecord.exerciseId) {
+      const exerciseId = selectedRecord.id;
+      try {
+        await saveDocumentRecord(user.uid, selectedRecord.id, { exerciseId });
+        setDocuments(prev => prev.map(doc => (doc.id === selectedRecord.id ? { ...doc, exerciseId } : doc)));
+      } catch (error) {
+        console.error('Error linking exercise to document:', error);
+      }
+    }
+
+    const loaded = await loadExercises();
+    if (!user || !selectedRecord) return;
+
+    // New exercise sets are filed where their document is
+    const unfiled = documentExercises(loaded, selectedRecord.id).filter(exercise => !exercise.folderId && !exercise.tags);
+    for (const exercise of unfiled) {
+      try {
+        await organizeExercise(user.uid, exercise, {
+          folderId: selectedRecord.folderId,
+          tags: [...(selectedRecord.tags ?? []), ...suggestTags(exercise.subject, undefined)],
+        });
+      } catch (error) {
+        console.error('Error filing exercise:', error);
+      }
+    }
+  };
+
+  const replaceDocument = (record: DocumentRecord) =>
+    setDocuments(prev => prev.map(doc => (doc.id === record.id ? record : doc)));
+
+  const handleRename = async (title: string) => {
+    if (!user || !renaming) return;
+
+    replaceDocument(await renameDocument(user.uid, renaming, title));
+    setRenaming(null);
+  };
+
+  const handleOrganize = async (organization: Organization) => {
+    if (!user || !organizing) return;
+
+    replaceDocument(await organizeDocument(user.uid, organizing, organization));
+    setOrganizing(null);
+  };
+
+  const handleDelete = async (record: DocumentRecord) => {
+    if (!user) return;
+
+    try {
+      await moveToTrash(user.uid, record);
+      replaceDocument({ ...record, deletedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error deleting document:', error);
+    }
+  };
+
+  const handleRestore = async (record: DocumentRecord) => {
+    if (!user) return;
+
+    await restoreFromTrash(user.uid, record);
+    replaceDocument({ ...record, deletedAt: undefined });
+  };
+
+  const handlePurge = async (records: DocumentRecord[]) => {
+    if (!user) return;
+
+    for (const record of records) {
+      await purgeDocument(user.uid, record);
+      setDocuments(prev => prev.filter(doc => doc.id !== record.id));
+    }
+    await loadExercises();
   };
 
   return (
     <View style={styles.container}>
-      <Text style={styles.header}>Your Documents</Text>
+      <View style={styles.headerRow}>
+        <Text style={styles.header}>Your Documents</Text>
+        <Pressable style={styles.trashButton} onPress={() => setShowTrash(true)}>
+          <Ionicons name="trash-outline" size={22} color="#64748b" />
+          {trashedDocuments.length > 0 && (
+            <Text style={styles.trashCount}>{trashedDocuments.length}</Text>
+          )}
+        </Pressable>
+      </View>
+      {!online && (
+        <Text style={styles.offlineText}>
+          You're offline. Changes are saved on this device and synced when you reconnect.
+        </Text>
+      )}
+      <FilterBar
+        tags={collectTags(activeDocuments)}
+        folderId={folderFilter}
+        tag={tagFilter}
+        onFolderChange={setFolderFilter}
+        onTagChange={setTagFilter}
+      />
       <ScrollView style={styles.scrollContainer}>
+        {activeJobs.map(job => (
+          <PDFCard
+            key={job.id}
+            title={job.title}
+            onPress={() => {}}
+            progress={job.progress ?? { phase: 'uploading' }}
+          />
+        ))}
         {loading ? (
           <Text style={styles.emptyText}>Loading documents...</Text>
-        ) : documents.length === 0 ? (
+        ) : activeDocuments.length === 0 && activeJobs.length === 0 ? (
           <Text style={styles.emptyText}>
             Upload a PDF to get started
           </Text>
+        ) : visibleDocuments.length === 0 && activeJobs.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No documents match this filter
+          </Text>
         ) : (
-          documents.map(doc => (
+          visibleDocuments.map(doc => (
             <PDFCard
               key={doc.id}
               title={doc.title}
-              onPress={() => setSelectedDoc(doc)}
+              onPress={() => openDocument(doc)}
+              syncState={syncStates[itemKey('documents', doc.id)]}
+              tags={doc.tags}
+              folderName={folders.find(folder => folder.id === doc.folderId)?.name}
+              onRename={() => setRenaming(doc)}
+              onOrganize={() => setOrganizing(doc)}
+              onDelete={() => handleDelete(doc)}
             />
           ))
         )}
       </ScrollView>
 
       <Modal
-        visible={!!selectedDoc}
+        visible={!!selectedRecord}
         animationType="slide"
         presentationStyle="pageSheet"
-        onRequestClose={() => setSelectedDoc(null)}
+        onRequestClose={closeDocument}
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>{selectedDoc?.title}</Text>
+            <Text style={styles.modalTitle}>{selectedRecord?.title}</Text>
             <Pressable
               style={styles.closeButton}
-              onPress={() => setSelectedDoc(null)}
+              onPress={closeDocument}
             >
               <Text style={styles.closeButtonText}>Close</Text>
             </Pressable>
           </View>
-          {selectedDoc && (
+          {selectedRecord && !selectedDoc && (
+            <Text style={styles.emptyText}>{openError ?? 'Loading document...'}</Text>
+          )}
+          {selectedRecord && selectedDoc && (
             <ContentViewer 
               content={selectedDoc.content}
-              documentId={selectedDoc.title.replace(/\.pdf$/, '')}
-              exercise={findExerciseForDocument(selectedDoc)}
-              onAnalysisComplete={loadExercises}
+              title={selectedRecord.title}
+              documentId={selectedRecord.id}
+              exercises={documentExercises(exercises, selectedRecord.id)}
+              onAnalysisComplete={handleAnalysisComplete}
+              onContentSaved={handleContentSaved}
             />
           )}
         </View>
       </Modal>
 
+      <RenameModal
+        visible={!!renaming}
+        currentName={renaming?.title ?? ''}
+        onConfirm={handleRename}
+        onCancel={() => setRenaming(null)}
+      />
+
+      <OrganizeModal
+        visible={!!organizing}
+        itemName={organizing?.title ?? ''}
+        organization={organizing ?? {}}
+        suggestedTags={organizing
+          ? suggestTags(documentExercises(exercises, organizing.id)[0]?.subject, organizing.title, organizing.tags)
+          : []}
+        onSave={handleOrganize}
+        onCancel={() => setOrganizing(null)}
+      />
+
+      <TrashModal
+        visible={showTrash}
+        documents={trashedDocuments}
+        onRestore={handleRestore}
+        onPurge={handlePurge}
+        onClose={() => setShowTrash(false)}
+      />
+
       <UploadBar onNewDocument={handleNewDocument} />
     </View>
   );
@@ -134,13 +361,36 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8fafc',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 60,
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
   header: {
     fontSize: 28,
     fontWeight: '700',
     color: '#1e293b',
-    marginTop: 60,
+  },
+  trashButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 8,
+  },
+  trashCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  offlineText: {
+    color: '#64748b',
+    fontSize: 14,
     marginHorizontal: 20,
-    marginBottom: 30,
+    marginTop: -16,
+    marginBottom: 16,
   },
   scrollContainer: {
     flex: 1,
@@ -0,0 +1,312 @@
+import { View, Text, StyleSheet, ScrollView, Modal, Pressable, TextInput, RefreshControl } from 'react-native';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentRecord, PDFDocument, fetchDocumentContent } from '../../lib/documents';
+import { Exercise, documentExercises } from '../../lib/exercises';
+import { SearchHit, SearchHitKind, SearchIndex, buildSearchIndex, search } from '../../lib/search';
+import { useAuthStore } from '../../stores/authStore';
+import { useSyncStore } from '../../stores/syncStore';
+import ContentViewer from '../../components/ContentViewer';
+import ExerciseViewer from '../../components/ExerciseViewer';
+
+const KIND_ICONS: Record<SearchHitKind, keyof typeof Ionicons.glyphMap> = {
+  document: 'document-text-outline',
+  exercise: 'barbell-outline',
+  solution: 'bulb-outline',
+};
+
+export default function SearchScreen() {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [query, setQuery] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+  const [openDocument, setOpenDocument] = useState<{ record: DocumentRecord; page?: number } | null>(null);
+  const [documentContent, setDocumentContent] = useState<PDFDocument | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [openExercise, setOpenExercise] = useState<{ exercise: Exercise; index: number } | null>(null);
+  const { user } = useAuthStore();
+  const online = useSyncStore(state => state.online);
+
+  const loadIndex = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setRefreshing(true);
+      setIndex(await buildSearchIndex(user.uid));
+    } catch (error) {
+      console.error('Error building search index:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadIndex();
+  }, [loadIndex]);
+
+  const hits = useMemo(() => (index ? search(index, query) : []), [index, query]);
+
+  const openHit = async (hit: SearchHit) => {
+    if (!user || !index) return;
+
+    const { documentId, page, exerciseId, subExerciseIndex } = hit.target;
+    if (exerciseId) {
+      const exercise = index.exercises.find(item => item.id === exerciseId);
+      if (exercise) {
+        setOpenExercise({ exercise, index: subExerciseIndex ?? 0 });
+      }
+      return;
+    }
+
+    const record = index.documents.find(item => item.id === documentId);
+    if (!record) return;
+
+    setOpenDocument({ record, page });
+    setDocumentContent(null);
+    setOpenError(null);
+    try {
+      setDocumentContent(await fetchDocumentContent(user.uid, record));
+    } catch (error) {
+      console.error('Error opening document:', error);
+      setOpenError('Could not load this document');
+    }
+  };
+
+  const handleContentSaved = async (content: string) => {
+    setDocumentContent(prev => (prev ? { ...prev, content } : prev));
+    await loadIndex();
+  };
+
+  const closeDocument = () => {
+    setOpenDocument(null);
+    setDocumentContent(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Search</Text>
+      {!online && (
+        <Text style={styles.offlineText}>
+          You're offline. Searching documents and solutions saved on this device.
+        </Text>
+      )}
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={20} color="#94a3b8" />
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Words or formulas, e.g. $\frac{1}{2}$"
+          placeholderTextColor="#94a3b8"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {query.length > 0 && (
+          <Pressable onPress={() => setQuery('')} hitSlop={8}>
+            <Ionicons name="close-circle" size={20} color="#94a3b8" />
+          </Pressable>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.scrollContainer}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={loadIndex}
+            tintColor="#6366f1"
+            colors={['#6366f1']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      >
+        {!index ? (
+          <Text style={styles.emptyText}>Preparing search...</Text>
+        ) : !query.trim() ? (
+          <Text style={styles.emptyText}>
+            Search your documents, exercises and solutions. Formulas match however they are written.
+          </Text>
+        ) : hits.length === 0 ? (
+          <Text style={styles.emptyText}>No results for "{query.trim()}"</Text>
+        ) : (
+          hits.map(hit => (
+            <Pressable
+              key={hit.id}
+              style={({ pressed }) => [styles.hitCard, pressed && styles.hitCardPressed]}
+              onPress={() => openHit(hit)}
+            >
+              <View style={styles.hitHeader}>
+                <Ionicons name={KIND_ICONS[hit.kind]} size={18} color="#6366f1" />
+                <Text style={styles.hitTitle} numberOfLines={1}>{hit.title}</Text>
+                {hit.target.page !== undefined && (
+                  <Text style={styles.hitPage}>p. {hit.target.page}</Text>
+                )}
+              </View>
+              <Text style={styles.hitSnippet} numberOfLines={3}>{hit.snippet}</Text>
+            </Pressable>
+          ))
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={!!openDocument}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeDocument}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{openDocument?.record.title}</Text>
+            <Pressable style={styles.closeButton} onPress={closeDocument}>
+              <Text style={styles.closeButtonText}>Close</Text>
+            </Pressable>
+          </View>
+          {openDocument && !documentContent && (
+            <Text style={styles.emptyText}>{openError ?? 'Loading document...'}</Text>
+          )}
+          {openDocument && documentContent && (
+            <ContentViewer
+              content={documentContent.content}
+              title={openDocument.record.title}
+              documentId={openDocument.record.id}
+              exercises={documentExercises(index?.exercises ?? [], openDocument.record.id)}
+              onAnalysisComplete={loadIndex}
+              initialPage={openDocument.page}
+              onContentSaved={handleContentSaved}
+            />
+          )}
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!openExercise}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setOpenExercise(null)}
+      >
+        {openExercise && (
+          <ExerciseViewer
+            exercise={openExercise.exercise}
+            initialIndex={openExercise.index}
+            onClose={() => setOpenExercise(null)}
+          />
+        )}
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginTop: 60,
+    marginHorizontal: 20,
+    marginBottom: 20,
+  },
+  offlineText: {
+    color: '#64748b',
+    fontSize: 14,
+    marginHorizontal: 20,
+    marginTop: -16,
+    marginBottom: 16,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 16,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#ffffff',
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+    paddingVertical: 12,
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#64748b',
+    fontSize: 16,
+    marginTop: 40,
+    marginHorizontal: 20,
+  },
+  hitCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  hitCardPressed: {
+    opacity: 0.8,
+    transform: [{ scale: 0.98 }],
+  },
+  hitHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  hitTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  hitPage: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  hitSnippet: {
+    fontSize: 14,
+    color: '#64748b',
+    lineHeight: 20,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
\ No newline at end of file
@@ -1,17 +1,63 @@
-import { View, Text, StyleSheet, TextInput, Pressable } from 'react-native';
+import { View, Text, StyleSheet, TextInput, Pressable, ScrollView } from 'react-native';
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { getConfidenceThreshold, setConfidenceThreshold, DEFAULT_CONFIDENCE_THRESHOLD } from '../../lib/settings';
+import { StorageUsage, STORAGE_QUOTAS, fetchUsage, formatBytes, recalculateUsage, totalUsage } from '../../lib/usage';
+import { useAuthStore } from '../../stores/authStore';
+
+const THRESHOLD_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9];
 
 export default function SettingsScreen() {
   const [topic, setTopic] = useState('');
+  const [threshold, setThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [usageError, setUsageError] = useState<string | null>(null);
+  const [recalculating, setRecalculating] = useState(false);
+  const { user } = useAuthStore();
   const router = useRouter();
 
   useEffect(() => {
     loadTopic();
+    getConfidenceThreshold().then(setThreshold);
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    fetchUsage(user.uid)
+      .then(setUsage)
+      .catch(() => setUsageError('Could not load storage usage'));
+  }, [user]);
+
+  const handleRecalculate = async () => {
+    if (!user) return;
+
+    try {
+      setRecalculating(true);
+      setUsageError(null);
+      setUsage(await recalculateUsage());
+    } catch {
+      setUsageError('Could not recalculate storage usage');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const role = user?.subscription.role ?? 'free';
+  const quota = STORAGE_QUOTAS[role];
+  const used = usage ? totalUsage(usage) : 0;
+  const usedShare = Math.min(1, used / quota.maxTotalSize);
+
+  const saveThreshold = async (value: number) => {
+    try {
+      await setConfidenceThreshold(value);
+      setThreshold(value);
+    } catch (error) {
+      console.error('Error saving threshold:', error);
+    }
+  };
+
   const loadTopic = async () => {
     try {
       const savedTopic = await AsyncStorage.getItem('currentTopic');
@@ -33,7 +79,7 @@ export default function SettingsScreen() {
   };
 
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
       <Text style={styles.header}>Modify Topic</Text>
       <View style={styles.inputContainer}>
         <TextInput
@@ -49,7 +95,66 @@ export default function SettingsScreen() {
         <Text style={styles.saveButtonText}>Save Topic</Text>
         <Ionicons name="checkmark-circle" size={24} color="#ffffff" />
       </Pressable>
-    </View>
+
+      <Text style={styles.sectionHeader}>Handwriting Recognition</Text>
+      <View style={styles.inputContainer}>
+        <Text style={styles.settingLabel}>Review threshold</Text>
+        <Text style={styles.settingDescription}>
+          Recognitions below this confidence are shown for review before they are used.
+        </Text>
+        <View style={styles.optionRow}>
+          {THRESHOLD_OPTIONS.map(option => (
+            <Pressable
+              key={option}
+              style={[styles.option, threshold === option && styles.optionSelected]}
+              onPress={() => saveThreshold(option)}
+            >
+              <Text style={[styles.optionText, threshold === option && styles.optionTextSelected]}>
+                {Math.round(option * 100)}%
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <Text style={styles.sectionHeader}>Storage</Text>
+      <View style={styles.inputContainer}>
+        <Text style={styles.settingLabel}>
+          {formatBytes(used)} of {formatBytes(quota.maxTotalSize)} used
+        </Text>
+        <Text style={styles.settingDescription}>
+          {role === 'subscriber' ? 'Subscriber' : 'Free'} plan, files up to {formatBytes(quota.maxFileSize)} each.
+        </Text>
+        <View style={styles.usageBar}>
+          <View
+            style={[
+              styles.usageFill,
+              { width: `${usedShare * 100}%` },
+              usedShare >= 0.9 && styles.usageFillFull,
+            ]}
+          />
+        </View>
+        {usage && (
+          <View style={styles.usageBreakdown}>
+            <View style={styles.usageRow}>
+              <Ionicons name="document-text-outline" size={18} color="#6366f1" />
+              <Text style={styles.usageLabel}>Documents</Text>
+              <Text style={styles.usageValue}>{formatBytes(usage.documents)}</Text>
+            </View>
+            <View style={styles.usageRow}>
+              <Ionicons name="image-outline" size={18} color="#6366f1" />
+              <Text style={styles.usageLabel}>Answers</Text>
+              <Text style={styles.usageValue}>{formatBytes(usage.answers)}</Text>
+            </View>
+          </View>
+        )}
+        {usageError && <Text style={styles.usageError}>{usageError}</Text>}
+        <Pressable style={styles.recalculateButton} onPress={handleRecalculate} disabled={recalculating}>
+          <Ionicons name="refresh" size={16} color="#6366f1" />
+          <Text style={styles.recalculateText}>{recalculating ? 'Recalculating...' : 'Recalculate'}</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
   );
 }
 
@@ -57,6 +162,8 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#f8fafc',
+  },
+  contentContainer: {
     padding: 20,
   },
   header: {
@@ -94,10 +201,98 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginTop: 20,
   },
+  sectionHeader: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginTop: 40,
+    marginBottom: 16,
+  },
+  settingLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+  },
+  optionSelected: {
+    backgroundColor: '#6366f1',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#4b5563',
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#ffffff',
+  },
+  usageBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f1f5f9',
+    overflow: 'hidden',
+  },
+  usageFill: {
+    height: '100%',
+    backgroundColor: '#6366f1',
+  },
+  usageFillFull: {
+    backgroundColor: '#ef4444',
+  },
+  usageBreakdown: {
+    marginTop: 16,
+    gap: 8,
+  },
+  usageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  usageLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  usageValue: {
+    fontSize: 16,
+    color: '#64748b',
+  },
+  usageError: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  recalculateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 16,
+  },
+  recalculateText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   saveButtonText: {
     color: '#ffffff',
     fontSize: 18,
     fontWeight: '600',
     marginRight: 8,
   },
-});
\ No newline at end of file
+});
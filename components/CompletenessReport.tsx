@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CompletenessReport as Report } from '../lib/completeness';
+
+interface CompletenessReportProps {
+  report: Report;
+  busy: boolean;
+  onAccept: () => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Shown when exercises are still missing after the follow-up extraction
+export default function CompletenessReport({ report, busy, onAccept, onRetry, onDiscard }: CompletenessReportProps) {
+  const found = report.expected.length - report.missing.length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="warning-outline" size={20} color="#92400e" />
+        <Text style={styles.title}>
+          Found {found} of {report.expected.length} exercises
+        </Text>
+      </View>
+      <Text style={styles.description}>
+        These exercises appear in the document but could not be extracted:
+      </Text>
+      <View style={styles.missingList}>
+        {report.missing.map(number => (
+          <View key={number} style={styles.missingChip}>
+            <Text style={styles.missingText}>{number}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.buttonRow}>
+        <Pressable style={[styles.button, styles.secondaryButton]} onPress={onDiscard} disabled={busy}>
+          <Text style={styles.secondaryButtonText}>Discard</Text>
+        </Pressable>
+        <Pressable style={[styles.button, styles.secondaryButton]} onPress={onRetry} disabled={busy}>
+          <Text style={styles.secondaryButtonText}>{busy ? 'Searching...' : 'Try again'}</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.button, styles.primaryButton, busy && styles.buttonDisabled]}
+          onPress={onAccept}
+          disabled={busy}
+        >
+          <Text style={styles.primaryButtonText}>Save {report.extracted.length} found</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  description: {
+    fontSize: 14,
+    color: '#92400e',
+    marginTop: 8,
+  },
+  missingList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  missingChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+  },
+  missingText: {
+    fontSize: 14,
+    color: '#92400e',
+    fontWeight: '500',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#6366f1',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#ffffff',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    backgroundColor: '#a5b4fc',
+  },
+});
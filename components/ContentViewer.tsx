@@ -4,46 +4,156 @@ import Markdown from 'react-native-markdown-display';
 import { WebView } from 'react-native-webview';
 import katex from 'katex';
 import { Exercise } from '../lib/exercises';
-import { analyzeWithOpenAI } from '../lib/openai';
-import { saveExerciseAnalysis } from '../lib/exercises';
+import { ChunkProgress, analyzeDocument } from '../lib/chunkedAnalysis';
+import { AnalysisValidationError, ExerciseAnalysis } from '../lib/exerciseSchema';
+import {
+  CompletenessReport as Report,
+  checkCompleteness,
+  extractMissingExercises,
+  mergeMissingExercises,
+  withReport,
+} from '../lib/completeness';
+import { saveExerciseSets } from '../lib/exercises';
+import { replaceExerciseSets } from '../lib/trash';
+import { updateDocumentContent } from '../lib/versions';
 import { useAuthStore } from '../stores/authStore';
 import { Ionicons } from '@expo/vector-icons';
+import { splitPages } from '../lib/pages';
+import { loadLayout } from '../lib/layout';
+import MmdEditor from './MmdEditor';
+import VersionHistoryModal from './VersionHistoryModal';
+import ExportModal from './ExportModal';
+import CompletenessReport from './CompletenessReport';
 
 interface ContentViewerProps {
   content: string;
-  exercise?: Exercise;
+  title?: string;
+  // The exercise sets analyzed from this document
+  exercises?: Exercise[];
   documentId: string;
   onAnalysisComplete?: () => void;
+  initialPage?: number;
+  onContentSaved?: (content: string) => void;
 }
 
-export default function ContentViewer({ content, exercise, documentId, onAnalysisComplete }: ContentViewerProps) {
+export default function ContentViewer({
+  content,
+  title = 'Document',
+  exercises = [],
+  documentId,
+  onAnalysisComplete,
+  initialPage,
+  onContentSaved,
+}: ContentViewerProps) {
   const { width } = useWindowDimensions();
   const maxWidth = Math.min(width - 40, 800);
   const [webViewWidths, setWebViewWidths] = useState<{[key: string]: number}>({});
   const resizeTimeouts = useRef<{[key: string]: NodeJS.Timeout}>({});
   const [analyzing, setAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [analysisStatus, setAnalysisStatus] = useState<string | null>(null);
+  // An incomplete analysis waiting for the user to accept, retry or discard it
+  const [pendingAnalysis, setPendingAnalysis] = useState<{ analyses: ExerciseAnalysis[]; report: Report } | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const scrollViewRef = useRef<ScrollView>(null);
+  const pageOffsets = useRef<{[page: number]: number}>({});
+  const initialPageShown = useRef(false);
   const { user } = useAuthStore();
 
-  const handleAnalyze = async () => {
+  const saveAnalysis = async (analyses: ExerciseAnalysis[]) => {
     if (!user) return;
-    
+
+    console.log('Saving analysis results...', analyses.length, 'sets');
+    const replaced = await saveExerciseSets(user.uid, documentId, analyses);
+    // Sets of the earlier analysis go with their solutions and attempts
+    await replaceExerciseSets(user.uid, replaced);
+    setPendingAnalysis(null);
+    onAnalysisComplete?.();
+  };
+
+  // Runs a targeted extraction for missing exercises; saves right away once nothing is missing
+  const completeAnalysis = async (analyses: ExerciseAnalysis[], report: Report) => {
+    if (!user) return;
+
+    if (!report.complete) {
+      setAnalysisStatus(`Looking for ${report.missing.length} missing exercise(s)...`);
+      const layout = await loadLayout(user.uid, documentId);
+      const { data: found, usage } = await extractMissingExercises(content, report.missing, layout);
+      console.log('Follow-up extraction found:', found.length, usage);
+      analyses = mergeMissingExercises(analyses, found, content);
+      report = checkCompleteness(analyses, content);
+    }
+
+    if (report.complete) {
+      await saveAnalysis(analyses);
+    } else {
+      setPendingAnalysis({ analyses, report });
+    }
+  };
+
+  const runAnalysis = async (task: () => Promise<void>) => {
     try {
       setAnalyzing(true);
-      console.log('Starting content analysis...');
-      
-      const analysis = await analyzeWithOpenAI(content);
-      if (analysis) {
-        console.log('Analysis completed, saving results...');
-        await saveExerciseAnalysis(user.uid, documentId, analysis);
-        onAnalysisComplete?.();
-      }
-    } catch (error) {
+      setAnalysisError(null);
+      await task();
+    } catch (error: any) {
       console.error('Analysis error:', error);
+      setAnalysisError(
+        error instanceof AnalysisValidationError
+          ? 'The exercises could not be extracted in a usable form. Please try again.'
+          : error.message || 'Error analyzing content'
+      );
     } finally {
       setAnalyzing(false);
+      setChunkProgress([]);
+      setAnalysisStatus(null);
     }
   };
 
+  const handleAnalyze = () => runAnalysis(async () => {
+    if (!user) return;
+
+    setPendingAnalysis(null);
+    console.log('Starting content analysis...');
+    const layout = await loadLayout(user.uid, documentId);
+    const { data, usage } = await analyzeDocument(content, layout, setChunkProgress);
+    console.log('Analysis completed:', usage);
+    setChunkProgress([]);
+
+    const report = checkCompleteness(data, content);
+    await completeAnalysis(withReport(data, report), report);
+  });
+
+  const handleRetryMissing = () => runAnalysis(async () => {
+    if (pendingAnalysis) {
+      await completeAnalysis(pendingAnalysis.analyses, pendingAnalysis.report);
+    }
+  });
+
+  const handleAcceptPartial = () => runAnalysis(async () => {
+    if (pendingAnalysis) {
+      await saveAnalysis(pendingAnalysis.analyses);
+    }
+  });
+
+  const doneChunks = chunkProgress.filter(chunk => chunk.state === 'done').length;
+  const missingExercises = [...new Set(exercises.flatMap(exercise => exercise.validationResults?.missingExercises ?? []))];
+  const staleExercises = exercises.some(exercise => exercise.staleSince);
+
+  const handleSaveEdit = async (edited: string) => {
+    if (!user) return;
+
+    await updateDocumentContent(user.uid, documentId, content, edited, {
+      source: 'edit',
+      author: user.email ?? undefined,
+    });
+    setEditing(false);
+    onContentSaved?.(edited);
+  };
+
   const preprocessContent = (rawContent: string): string => {
     return rawContent
       .replace(/\\section\*\{([^}]+)\}/g, '\n\n## $1\n\n')
@@ -250,16 +360,75 @@ export default function ContentViewer({ content, exercise, documentId, onAnalysi
     },
   }), [maxWidth]);
 
-  const processedContent = useMemo(() => preprocessContent(content), [content]);
+  const pages = useMemo(() => splitPages(content), [content]);
+  const processedContent = useMemo(
+    () => (pages.length > 0 ? '' : preprocessContent(content)),
+    [content, pages]
+  );
+
+  const scrollToPage = (pageNumber: number) => {
+    const offset = pageOffsets.current[pageNumber];
+    if (offset !== undefined) {
+      scrollViewRef.current?.scrollTo({ y: offset, animated: true });
+    }
+  };
+
+  if (editing) {
+    return (
+      <MmdEditor
+        initialContent={content}
+        onSave={handleSaveEdit}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
 
   return (
     <ScrollView 
+      ref={scrollViewRef}
       style={styles.container}
       contentContainerStyle={styles.contentContainer}
       horizontal={false}
     >
       <View style={styles.content}>
-        {!exercise && (
+        <View style={styles.toolRow}>
+          <Pressable
+            style={({ pressed }) => [styles.editButton, pressed && styles.buttonPressed]}
+            onPress={() => setShowHistory(true)}
+          >
+            <Ionicons name="time-outline" size={18} color="#6366f1" />
+            <Text style={styles.editButtonText}>History</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.editButton, pressed && styles.buttonPressed]}
+            onPress={() => setShowExport(true)}
+          >
+            <Ionicons name="share-outline" size={18} color="#6366f1" />
+            <Text style={styles.editButtonText}>Export</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.editButton, pressed && styles.buttonPressed]}
+            onPress={() => setEditing(true)}
+          >
+            <Ionicons name="create-outline" size={18} color="#6366f1" />
+            <Text style={styles.editButtonText}>Edit text</Text>
+          </Pressable>
+        </View>
+        <VersionHistoryModal
+          visible={showHistory}
+          documentId={documentId}
+          currentContent={content}
+          onReverted={reverted => onContentSaved?.(reverted)}
+          onClose={() => setShowHistory(false)}
+        />
+        <ExportModal
+          visible={showExport}
+          title={title}
+          content={content}
+          onClose={() => setShowExport(false)}
+        />
+
+        {exercises.length === 0 && !pendingAnalysis && (
           <Pressable
             style={({ pressed }) => [
               styles.analyzeButton,
@@ -280,24 +449,134 @@ export default function ContentViewer({ content, exercise, documentId, onAnalysi
           </Pressable>
         )}
         
-        {exercise && (
-          <View style={styles.exerciseInfo}>
-            <Text style={styles.exerciseTitle}>{exercise.title}</Text>
-            <Text style={styles.exerciseDescription}>{exercise.description}</Text>
-            <View style={styles.exerciseMetadata}>
-              <Text style={styles.metadataItem}>Difficulty: {exercise.difficulty}</Text>
-              <Text style={styles.metadataItem}>Subject: {exercise.subject}</Text>
-              <Text style={styles.metadataItem}>Total Exercises: {exercise.totalExercises}</Text>
+        {analyzing && chunkProgress.length > 1 && (
+          <View style={styles.chunkProgress}>
+            <Text style={styles.chunkProgressText}>
+              Analyzed {doneChunks} of {chunkProgress.length} parts
+            </Text>
+            <View style={styles.chunkRow}>
+              {chunkProgress.map(chunk => (
+                <View
+                  key={`chunk-${chunk.index}`}
+                  style={[
+                    styles.chunk,
+                    chunk.state === 'analyzing' && styles.chunkActive,
+                    chunk.state === 'done' && styles.chunkDone,
+                    chunk.state === 'failed' && styles.chunkFailed,
+                  ]}
+                />
+              ))}
             </View>
           </View>
         )}
 
-        <Markdown 
-          style={markdownStyles}
-          rules={rules}
-        >
-          {processedContent}
-        </Markdown>
+        {analyzing && analysisStatus && <Text style={styles.chunkProgressText}>{analysisStatus}</Text>}
+
+        {pendingAnalysis && (
+          <CompletenessReport
+            report={pendingAnalysis.report}
+            busy={analyzing}
+            onAccept={handleAcceptPartial}
+            onRetry={handleRetryMissing}
+            onDiscard={() => setPendingAnalysis(null)}
+          />
+        )}
+
+        {analysisError && <Text style={styles.analysisError}>{analysisError}</Text>}
+
+        {exercises.length > 0 && (
+          <View style={styles.exerciseInfo}>
+            {exercises.length > 1 && (
+              <Text style={styles.setCount}>{exercises.length} exercise sets from this document</Text>
+            )}
+            {exercises.map((exercise, index) => (
+              <View key={exercise.id} style={index > 0 && styles.exerciseSet}>
+                <Text style={styles.exerciseTitle}>{exercise.title}</Text>
+                <Text style={styles.exerciseDescription}>{exercise.description}</Text>
+                <View style={styles.exerciseMetadata}>
+                  <Text style={styles.metadataItem}>Difficulty: {exercise.difficulty}</Text>
+                  <Text style={styles.metadataItem}>Subject: {exercise.subject}</Text>
+                  <Text style={styles.metadataItem}>Total Exercises: {exercise.totalExercises}</Text>
+                </View>
+              </View>
+            ))}
+            {missingExercises.length > 0 && (
+              <Text style={styles.missingNote}>
+                Not extracted: {missingExercises.join(', ')}
+              </Text>
+            )}
+            {staleExercises && (
+              <View style={styles.staleNotice}>
+                <Text style={styles.staleText}>
+                  The text was edited after these exercises were extracted.
+                </Text>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.reanalyzeButton,
+                    pressed && styles.buttonPressed,
+                    analyzing && styles.buttonDisabled,
+                  ]}
+                  onPress={handleAnalyze}
+                  disabled={analyzing}
+                >
+                  <Text style={styles.buttonText}>{analyzing ? 'Analyzing...' : 'Re-analyze'}</Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+        )}
+
+        {pages.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.pageNav}
+          >
+            {pages.map(page => (
+              <Pressable
+                key={`nav-${page.number}`}
+                style={({ pressed }) => [styles.pageChip, pressed && styles.buttonPressed]}
+                onPress={() => scrollToPage(page.number)}
+              >
+                <Text style={styles.pageChipText}>p. {page.number}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+
+        {pages.length > 0 ? (
+          pages.map(page => (
+            <View
+              key={`page-${page.number}`}
+              onLayout={event => {
+                pageOffsets.current[page.number] = event.nativeEvent.layout.y;
+                if (page.number === initialPage && !initialPageShown.current) {
+                  initialPageShown.current = true;
+                  scrollViewRef.current?.scrollTo({ y: event.nativeEvent.layout.y, animated: false });
+                }
+              }}
+            >
+              <View style={styles.pageMarker}>
+                <View style={styles.pageMarkerLine} />
+                <Text style={styles.pageMarkerText}>Page {page.number}</Text>
+                <View style={styles.pageMarkerLine} />
+              </View>
+              <Markdown 
+                style={markdownStyles}
+                rules={rules}
+              >
+                {preprocessContent(page.content)}
+              </Markdown>
+            </View>
+          ))
+        ) : (
+          <Markdown 
+            style={markdownStyles}
+            rules={rules}
+          >
+            {processedContent}
+          </Markdown>
+        )}
       </View>
     </ScrollView>
   );
@@ -408,6 +687,44 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontStyle: 'italic',
   },
+  chunkProgress: {
+    marginBottom: 16,
+  },
+  chunkProgressText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  chunkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  chunk: {
+    width: 24,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e5e7eb',
+  },
+  chunkActive: {
+    backgroundColor: '#a5b4fc',
+  },
+  chunkDone: {
+    backgroundColor: '#6366f1',
+  },
+  chunkFailed: {
+    backgroundColor: '#ef4444',
+  },
+  missingNote: {
+    fontSize: 14,
+    color: '#92400e',
+    marginTop: 8,
+  },
+  analysisError: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginBottom: 16,
+  },
   exerciseInfo: {
     backgroundColor: '#f8fafc',
     borderRadius: 12,
@@ -416,6 +733,18 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e5e7eb',
   },
+  setCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  exerciseSet: {
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+    marginTop: 16,
+    paddingTop: 16,
+  },
   exerciseTitle: {
     fontSize: 24,
     fontWeight: '700',
@@ -440,6 +769,37 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 16,
   },
+  pageNav: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  pageChip: {
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  pageChipText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  pageMarker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginVertical: 16,
+  },
+  pageMarkerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  pageMarkerText: {
+    fontSize: 13,
+    color: '#94a3b8',
+    fontWeight: '500',
+  },
   analyzeButton: {
     backgroundColor: '#6366f1',
     flexDirection: 'row',
@@ -450,6 +810,46 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     gap: 8,
   },
+  toolRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginBottom: 16,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e7ff',
+  },
+  editButtonText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  staleNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fef3c7',
+  },
+  staleText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400e',
+  },
+  reanalyzeButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
   buttonPressed: {
     opacity: 0.8,
   },
@@ -13,24 +13,35 @@ import { useAuthStore } from '../stores/authStore';
 import MathContent from './MathContent';
 import { useImageUpload } from './hooks/useImageUpload';
 import ExerciseSolution from './ExerciseSolution';
+import OcrReviewModal from './OcrReviewModal';
+import ImagePreprocessModal from './ImagePreprocessModal';
+import SourceRegion from './SourceRegion';
+import SyncBadge from './SyncBadge';
+import { useSyncState } from '../stores/syncStore';
 import { generateSolution, saveSolution, fetchSolutions, ExerciseSolution as Solution } from '../lib/solutions';
 
 interface ExerciseViewerProps {
   exercise: Exercise;
   onClose: () => void;
+  initialIndex?: number;
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.3;
 
-export default function ExerciseViewer({ exercise, onClose }: ExerciseViewerProps) {
-  const [currentIndex, setCurrentIndex] = useState(0);
+export default function ExerciseViewer({ exercise, onClose, initialIndex = 0 }: ExerciseViewerProps) {
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [generating, setGenerating] = useState(false);
   const [solution, setSolution] = useState<Solution | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
   const x = useSharedValue(0);
   const maxWidth = Math.min(SCREEN_WIDTH - 40, 800);
   const { user } = useAuthStore();
   const currentExercise = exercise.subExercises[currentIndex];
+  const currentContext = currentExercise.contextId
+    ? [exercise.context, ...(exercise.contexts ?? [])].find(context => context?.id === currentExercise.contextId)
+    : undefined;
+  const solutionSyncState = useSyncState('solutions', `${exercise.id}/${currentExercise.id}`);
 
   const {
     uploading,
@@ -40,10 +51,24 @@ export default function ExerciseViewer({ exercise, onClose }: ExerciseViewerProp
     handleImagePick,
     handleFileChange,
     setAnswerImage,
-  } = useImageUpload(user?.uid, exercise.id, currentExercise.id);
+    pendingReview,
+    confidenceThreshold,
+    acceptReview,
+    rejectReview,
+    pendingImageUri,
+    confirmPreprocessedImage,
+    cancelPreprocessing,
+  } = useImageUpload(
+    user?.uid,
+    exercise.id,
+    currentExercise.id,
+    currentExercise.question,
+    solution?.finalAnswer ?? null
+  );
 
   useEffect(() => {
     loadSolution();
+    setShowOriginal(false);
   }, [currentIndex]);
 
   const loadSolution = async () => {
@@ -78,10 +103,8 @@ ${subExercise.image ? `Image: ${subExercise.image}` : ''}
       
       // Generate solutions for all sub-exercises
       for (const { id, content } of exerciseContents) {
-        const generatedSolution = await generateSolution(content);
-        if (generatedSolution) {
-          await saveSolution(user.uid, exercise.id, id, generatedSolution);
-        }
+        const { data: generatedSolution } = await generateSolution(content);
+        await saveSolution(user.uid, exercise.id, id, generatedSolution);
       }
 
       // Reload the current solution
@@ -172,7 +195,29 @@ ${subExercise.image ? `Image: ${subExercise.image}` : ''}
               )}
 
               <View style={styles.questionContainer}>
-                <Text style={styles.questionNumber}>Question {currentExercise.originalNumber}</Text>
+                <View style={styles.questionHeader}>
+                  <Text style={styles.questionNumber}>Question {currentExercise.originalNumber}</Text>
+                  {currentExercise.source && (
+                    <Pressable
+                      style={styles.originalButton}
+                      onPress={() => setShowOriginal(value => !value)}
+                    >
+                      <Ionicons
+                        name={showOriginal ? 'eye-off-outline' : 'eye-outline'}
+                        size={16}
+                        color="#6366f1"
+                      />
+                      <Text style={styles.originalButtonText}>
+                        {showOriginal ? 'Hide original' : 'View in original'}
+                      </Text>
+                    </Pressable>
+                  )}
+                </View>
+                {currentContext?.content && (
+                  <View style={styles.contextContent}>
+                    <MathContent content={currentContext.content} maxWidth={maxWidth - 32} />
+                  </View>
+                )}
                 <View style={styles.questionContent}>
                   <MathContent content={currentExercise.question} maxWidth={maxWidth} />
                 </View>
@@ -185,10 +230,16 @@ ${subExercise.image ? `Image: ${subExercise.image}` : ''}
                     />
                   </View>
                 )}
+                {showOriginal && currentExercise.source && (
+                  <SourceRegion source={currentExercise.source} maxWidth={maxWidth - 40} />
+                )}
               </View>
 
               {solution && (
                 <View style={styles.solutionContainer}>
+                  <View style={styles.syncRow}>
+                    <SyncBadge state={solutionSyncState} showLabel />
+                  </View>
                   <ExerciseSolution
                     steps={solution.steps}
                     hints={solution.hints}
@@ -260,6 +311,26 @@ ${subExercise.image ? `Image: ${subExercise.image}` : ''}
           </View>
         </Animated.View>
       </GestureDetector>
+
+      <ImagePreprocessModal
+        visible={pendingImageUri !== null}
+        uri={pendingImageUri}
+        onConfirm={confirmPreprocessedImage}
+        onCancel={cancelPreprocessing}
+      />
+
+      {pendingReview && (
+        <OcrReviewModal
+          visible
+          imageUrl={pendingReview.imageUrl}
+          mmd={pendingReview.mmd}
+          confidence={pendingReview.confidence}
+          lines={pendingReview.lines}
+          threshold={confidenceThreshold}
+          onAccept={acceptReview}
+          onReject={rejectReview}
+        />
+      )}
     </View>
   );
 }
@@ -326,11 +397,38 @@ const styles = StyleSheet.create({
   questionContainer: {
     flex: 1,
   },
+  questionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
   questionNumber: {
     fontSize: 14,
     fontWeight: '600',
     color: '#6366f1',
-    marginBottom: 12,
+  },
+  originalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+  },
+  originalButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6366f1',
+  },
+  contextContent: {
+    marginBottom: 16,
+    padding: 16,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
   },
   questionContent: {
     marginBottom: 16,
@@ -347,6 +445,10 @@ const styles = StyleSheet.create({
     width: '100%',
     height: 200,
   },
+  syncRow: {
+    alignItems: 'flex-end',
+    marginBottom: 8,
+  },
   solutionContainer: {
     marginTop: 24,
     marginBottom: 24,
@@ -423,5 +525,3 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 });
-
-export default ExerciseViewer
\ No newline at end of file
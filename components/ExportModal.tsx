@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../stores/authStore';
+import { Exercise } from '../lib/exercises';
+import { fetchSolutions } from '../lib/solutions';
+import { ExerciseExportOptions, ExportFormat, exerciseToMmd, exportMmd } from '../lib/export';
+
+interface ExportModalProps {
+  visible: boolean;
+  title: string;
+  // Documents export their MMD as is; exercise sets can add hints, solutions and answers
+  content?: string;
+  exercise?: Exercise;
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { format: 'pdf', label: 'Printable PDF', icon: 'print-outline' },
+  { format: 'html', label: 'Web page (.html)', icon: 'globe-outline' },
+  { format: 'tex', label: 'LaTeX (.tex)', icon: 'code-slash-outline' },
+];
+
+const ANSWER_KEYS: { value: ExerciseExportOptions['answerKey']; label: string }[] = [
+  { value: 'none', label: 'No answers' },
+  { value: 'inline', label: 'After each exercise' },
+  { value: 'separate', label: 'Separate answer key' },
+];
+
+export default function ExportModal({ visible, title, content, exercise, onClose }: ExportModalProps) {
+  const { user } = useAuthStore();
+  const [options, setOptions] = useState<ExerciseExportOptions>({
+    includeHints: false,
+    includeSolutions: false,
+    answerKey: 'separate',
+  });
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+
+    try {
+      setExporting(format);
+      setError(null);
+      let mmd = content ?? '';
+      if (exercise) {
+        const solutions = await fetchSolutions(user.uid, exercise.id);
+        mmd = exerciseToMmd(exercise, solutions, options);
+      }
+      await exportMmd(title, mmd, format);
+    } catch (e: any) {
+      setError(e.message || 'Error exporting');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Export</Text>
+          <Text style={styles.itemName} numberOfLines={1}>{title}</Text>
+
+          {exercise && (
+            <>
+              <View style={styles.optionRow}>
+                <Text style={styles.optionLabel}>Include hints</Text>
+                <Switch
+                  value={options.includeHints}
+                  onValueChange={includeHints => setOptions(prev => ({ ...prev, includeHints }))}
+                  trackColor={{ true: '#6366f1', false: '#e5e7eb' }}
+                />
+              </View>
+              <View style={styles.optionRow}>
+                <Text style={[styles.optionLabel, options.answerKey === 'none' && styles.optionDisabled]}>
+                  Include solution steps
+                </Text>
+                <Switch
+                  value={options.includeSolutions && options.answerKey !== 'none'}
+                  onValueChange={includeSolutions => setOptions(prev => ({ ...prev, includeSolutions }))}
+                  disabled={options.answerKey === 'none'}
+                  trackColor={{ true: '#6366f1', false: '#e5e7eb' }}
+                />
+              </View>
+              <View style={styles.chipRow}>
+                {ANSWER_KEYS.map(answerKey => (
+                  <Pressable
+                    key={answerKey.value}
+                    style={[styles.chip, options.answerKey === answerKey.value && styles.chipSelected]}
+                    onPress={() => setOptions(prev => ({ ...prev, answerKey: answerKey.value }))}
+                  >
+                    <Text
+                      style={[styles.chipText, options.answerKey === answerKey.value && styles.chipTextSelected]}
+                    >
+                      {answerKey.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={styles.formatList}>
+            {FORMATS.map(item => (
+              <Pressable
+                key={item.format}
+                style={({ pressed }) => [styles.formatButton, pressed && styles.buttonPressed]}
+                onPress={() => handleExport(item.format)}
+                disabled={exporting !== null}
+              >
+                <Ionicons name={item.icon} size={20} color="#6366f1" />
+                <Text style={styles.formatText}>
+                  {exporting === item.format ? 'Exporting...' : item.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.button, styles.secondaryButton]} onPress={onClose}>
+              <Text style={styles.secondaryButtonText}>Close</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  itemName: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  optionDisabled: {
+    color: '#94a3b8',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e7ff',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  formatList: {
+    gap: 8,
+    marginTop: 20,
+  },
+  formatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  formatText: {
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFolderStore } from '../stores/folderStore';
+import { UNFILED } from '../lib/folders';
+import RenameModal from './RenameModal';
+
+interface FilterBarProps {
+  tags: string[];
+  folderId: string | null;
+  tag: string | null;
+  onFolderChange: (folderId: string | null) => void;
+  onTagChange: (tag: string | null) => void;
+}
+
+export default function FilterBar({ tags, folderId, tag, onFolderChange, onTagChange }: FilterBarProps) {
+  const { folders, create, rename, remove } = useFolderStore();
+  const [editing, setEditing] = useState<'create' | 'rename' | null>(null);
+  const selectedFolder = folders.find(folder => folder.id === folderId);
+
+  const handleSave = async (name: string) => {
+    if (editing === 'rename' && selectedFolder) {
+      await rename(selectedFolder, name);
+    } else {
+      const folder = await create(name);
+      if (folder) {
+        onFolderChange(folder.id);
+      }
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedFolder) return;
+
+    try {
+      await remove(selectedFolder);
+      onFolderChange(null);
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      {icon && <Ionicons name={icon} size={14} color={selected ? '#ffffff' : '#6366f1'} />}
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {renderChip('all', 'All', folderId === null, () => onFolderChange(null))}
+        {folders.map(folder =>
+          renderChip(folder.id, folder.name, folderId === folder.id, () => onFolderChange(folder.id), 'folder-outline')
+        )}
+        {folders.length > 0 &&
+          renderChip(UNFILED, 'Unfiled', folderId === UNFILED, () => onFolderChange(UNFILED))}
+        <Pressable style={styles.iconButton} onPress={() => setEditing('create')}>
+          <Ionicons name="add" size={18} color="#6366f1" />
+        </Pressable>
+        {selectedFolder && (
+          <>
+            <Pressable style={styles.iconButton} onPress={() => setEditing('rename')}>
+              <Ionicons name="pencil" size={16} color="#6366f1" />
+            </Pressable>
+            <Pressable style={styles.iconButton} onPress={handleDelete}>
+              <Ionicons name="trash-outline" size={16} color="#ef4444" />
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+          {tags.map(item =>
+            renderChip(`tag-${item}`, `#${item}`, tag === item, () => onTagChange(tag === item ? null : item))
+          )}
+        </ScrollView>
+      )}
+
+      <RenameModal
+        visible={editing !== null}
+        currentName={editing === 'rename' ? selectedFolder?.name ?? '' : ''}
+        title={editing === 'rename' ? 'Rename course or folder' : 'New course or folder'}
+        confirmLabel={editing === 'rename' ? 'Rename' : 'Create'}
+        placeholder="e.g. Linear Algebra"
+        onConfirm={handleSave}
+        onCancel={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  row: {
+    paddingHorizontal: 20,
+    gap: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e7ff',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  iconButton: {
+    padding: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+  },
+});
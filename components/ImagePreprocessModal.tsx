@@ -0,0 +1,389 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Image,
+  Pressable,
+  PanResponder,
+  ActivityIndicator,
+  LayoutChangeEvent,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  PreprocessedImage,
+  loadImage,
+  rotateImage,
+  preprocessImage,
+  estimateSkew,
+} from '../lib/imagePreprocessing';
+
+interface ImagePreprocessModalProps {
+  visible: boolean;
+  uri: string | null;
+  onConfirm: (image: PreprocessedImage) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+// Crop rectangle as fractions of the displayed image
+interface NormalizedCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FULL_CROP: NormalizedCrop = { x: 0, y: 0, width: 1, height: 1 };
+const MIN_CROP_SIZE = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export default function ImagePreprocessModal({ visible, uri, onConfirm, onCancel }: ImagePreprocessModalProps) {
+  const [original, setOriginal] = useState<PreprocessedImage | null>(null);
+  const [working, setWorking] = useState<PreprocessedImage | null>(null);
+  const [rotation, setRotation] = useState(0);
+  const [crop, setCrop] = useState<NormalizedCrop>(FULL_CROP);
+  const [enhance, setEnhance] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [area, setArea] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!visible || !uri) return;
+
+    setOriginal(null);
+    setWorking(null);
+    setRotation(0);
+    setCrop(FULL_CROP);
+    setError(null);
+    setBusy(true);
+    loadImage(uri)
+      .then(setOriginal)
+      .catch(e => setError(e.message))
+      .finally(() => setBusy(false));
+  }, [visible, uri]);
+
+  // Rotation is always applied to the original so small corrections don't add up
+  useEffect(() => {
+    if (!original) return;
+
+    setBusy(true);
+    rotateImage(original, rotation)
+      .then(image => {
+        setWorking(image);
+        setCrop(FULL_CROP);
+      })
+      .catch(e => setError(e.message))
+      .finally(() => setBusy(false));
+  }, [original, rotation]);
+
+  const display = useMemo(() => {
+    if (!working || area.width === 0 || area.height === 0) {
+      return { width: 0, height: 0 };
+    }
+    const scale = Math.min(area.width / working.width, area.height / working.height);
+    return { width: working.width * scale, height: working.height * scale };
+  }, [working, area]);
+
+  // PanResponders are created once, so they read the latest values through refs
+  const cropRef = useRef(crop);
+  cropRef.current = crop;
+  const displayRef = useRef(display);
+  displayRef.current = display;
+
+  const createHandle = (corner: 'topLeft' | 'bottomRight') => {
+    let start = FULL_CROP;
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        start = cropRef.current;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { width, height } = displayRef.current;
+        if (width === 0 || height === 0) return;
+        const dx = gesture.dx / width;
+        const dy = gesture.dy / height;
+
+        if (corner === 'topLeft') {
+          const right = start.x + start.width;
+          const bottom = start.y + start.height;
+          const x = clamp(start.x + dx, 0, right - MIN_CROP_SIZE);
+          const y = clamp(start.y + dy, 0, bottom - MIN_CROP_SIZE);
+          setCrop({ x, y, width: right - x, height: bottom - y });
+        } else {
+          setCrop({
+            ...start,
+            width: clamp(start.width + dx, MIN_CROP_SIZE, 1 - start.x),
+            height: clamp(start.height + dy, MIN_CROP_SIZE, 1 - start.y),
+          });
+        }
+      },
+    });
+  };
+
+  const topLeftHandle = useRef(createHandle('topLeft')).current;
+  const bottomRightHandle = useRef(createHandle('bottomRight')).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setArea({ width, height });
+  };
+
+  // Straightening adds to the manual rotation, so it can still be fine-tuned
+  const handleStraighten = async () => {
+    if (!working) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const angle = await estimateSkew(working);
+      if (angle !== 0) {
+        setRotation(r => r + angle);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Error straightening image');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!working) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const cropped = crop.width < 1 || crop.height < 1;
+      const result = await preprocessImage(working, {
+        enhance,
+        crop: cropped
+          ? {
+              originX: Math.round(crop.x * working.width),
+              originY: Math.round(crop.y * working.height),
+              width: Math.round(crop.width * working.width),
+              height: Math.round(crop.height * working.height),
+            }
+          : undefined,
+      });
+      await onConfirm(result);
+    } catch (e: any) {
+      setError(e.message || 'Error processing image');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={onCancel} style={styles.headerButton}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+          <Text style={styles.title}>Adjust image</Text>
+          <Pressable onPress={handleConfirm} style={styles.headerButton} disabled={busy || !working}>
+            <Text style={[styles.doneText, (busy || !working) && styles.disabledText]}>Use image</Text>
+          </Pressable>
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.previewArea} onLayout={handleLayout}>
+          {working && display.width > 0 && (
+            <View style={{ width: display.width, height: display.height }}>
+              <Image
+                source={{ uri: working.uri }}
+                style={[styles.preview, enhance && Platform.OS === 'web' && styles.previewEnhanced]}
+              />
+              <View
+                style={[
+                  styles.cropBox,
+                  {
+                    left: crop.x * display.width,
+                    top: crop.y * display.height,
+                    width: crop.width * display.width,
+                    height: crop.height * display.height,
+                  },
+                ]}
+              >
+                <View style={[styles.handle, styles.handleTopLeft]} {...topLeftHandle.panHandlers} />
+                <View style={[styles.handle, styles.handleBottomRight]} {...bottomRightHandle.panHandlers} />
+              </View>
+            </View>
+          )}
+          {busy && (
+            <View style={styles.busyOverlay}>
+              <ActivityIndicator size="large" color="#6366f1" />
+            </View>
+          )}
+        </View>
+
+        <View style={styles.toolbar}>
+          <Pressable style={styles.toolButton} onPress={() => setRotation(r => r - 90)} disabled={busy}>
+            <Ionicons name="arrow-undo" size={22} color="#6366f1" />
+          </Pressable>
+          <Pressable style={styles.toolButton} onPress={() => setRotation(r => r - 1)} disabled={busy}>
+            <Text style={styles.toolText}>-1°</Text>
+          </Pressable>
+          <Text style={styles.rotationText}>{rotation}°</Text>
+          <Pressable style={styles.toolButton} onPress={() => setRotation(r => r + 1)} disabled={busy}>
+            <Text style={styles.toolText}>+1°</Text>
+          </Pressable>
+          <Pressable style={styles.toolButton} onPress={() => setRotation(r => r + 90)} disabled={busy}>
+            <Ionicons name="arrow-redo" size={22} color="#6366f1" />
+          </Pressable>
+          <Pressable style={styles.toolButton} onPress={() => setCrop(FULL_CROP)} disabled={busy}>
+            <Ionicons name="expand" size={22} color="#6366f1" />
+          </Pressable>
+          <Pressable style={styles.toolButton} onPress={handleStraighten} disabled={busy || !working}>
+            <Ionicons name="git-commit-outline" size={22} color="#6366f1" />
+          </Pressable>
+          <Pressable
+            style={[styles.toolButton, enhance && styles.toolButtonActive]}
+            onPress={() => setEnhance(value => !value)}
+          >
+            <Ionicons name="contrast" size={22} color={enhance ? '#ffffff' : '#6366f1'} />
+          </Pressable>
+        </View>
+
+        {working && (
+          <Text style={styles.infoText}>
+            {Math.round(crop.width * working.width)} × {Math.round(crop.height * working.height)} px
+            {/* The preview filter only exists on web; elsewhere the enhancement shows up after upload */}
+            {enhance && Platform.OS !== 'web' && ' · enhanced when used'}
+          </Text>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  cancelText: {
+    color: '#64748b',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  doneText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: '#cbd5e1',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  previewArea: {
+    flex: 1,
+    margin: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  preview: {
+    width: '100%',
+    height: '100%',
+  },
+  previewEnhanced: {
+    // Approximates the grayscale and contrast enhancement applied when the image is used
+    filter: 'grayscale(1) contrast(1.4)',
+  } as any,
+  cropBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    backgroundColor: 'rgba(99, 102, 241, 0.08)',
+  },
+  handle: {
+    position: 'absolute',
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#6366f1',
+    borderWidth: 3,
+    borderColor: '#ffffff',
+  },
+  handleTopLeft: {
+    left: -14,
+    top: -14,
+  },
+  handleBottomRight: {
+    right: -14,
+    bottom: -14,
+  },
+  busyOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  toolButton: {
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+    minWidth: 44,
+    alignItems: 'center',
+  },
+  toolButtonActive: {
+    backgroundColor: '#6366f1',
+  },
+  toolText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rotationText: {
+    minWidth: 48,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  infoText: {
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+});
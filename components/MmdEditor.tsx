@@ -0,0 +1,291 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import MathContent from './MathContent';
+import { findMathErrors } from '../lib/mathErrors';
+
+interface MmdEditorProps {
+  initialContent: string;
+  onSave: (content: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface Snippet {
+  label: string;
+  before: string;
+  after: string;
+}
+
+// The selection, if any, ends up between `before` and `after`
+const SNIPPETS: Snippet[] = [
+  { label: '$x$', before: '$', after: '$' },
+  { label: '$$', before: '$$\n', after: '\n$$' },
+  { label: 'a/b', before: '\\frac{', after: '}{}' },
+  { label: '√', before: '\\sqrt{', after: '}' },
+  { label: 'xⁿ', before: '^{', after: '}' },
+  { label: 'xₙ', before: '_{', after: '}' },
+  { label: '∫', before: '\\int_{', after: '}^{} \\, dx' },
+  { label: 'Σ', before: '\\sum_{', after: '}^{}' },
+  { label: 'lim', before: '\\lim_{', after: ' \\to }' },
+  { label: '( )', before: '\\left(', after: '\\right)' },
+  { label: '·', before: '\\cdot ', after: '' },
+  { label: '∞', before: '\\infty', after: '' },
+  { label: 'α', before: '\\alpha', after: '' },
+  { label: 'π', before: '\\pi', after: '' },
+  { label: 'v⃗', before: '\\vec{', after: '}' },
+  { label: 'matrix', before: '\\begin{pmatrix}\n', after: '\n\\end{pmatrix}' },
+  { label: 'text', before: '\\text{', after: '}' },
+];
+
+const PREVIEW_DELAY = 400;
+
+export default function MmdEditor({ initialContent, onSave, onCancel }: MmdEditorProps) {
+  const { width } = useWindowDimensions();
+  const sideBySide = width >= 768;
+  const [text, setText] = useState(initialContent);
+  const [preview, setPreview] = useState(initialContent);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<TextInput>(null);
+
+  // Rendering every formula on each keystroke is too slow, so the preview lags a little
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreview(text), PREVIEW_DELAY);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  const mathErrors = useMemo(() => findMathErrors(preview), [preview]);
+  const changed = text !== initialContent;
+
+  const insertSnippet = (snippet: Snippet) => {
+    const selected = text.slice(selection.start, selection.end);
+    const inserted = `${snippet.before}${selected}${snippet.after}`;
+    const cursor = selection.start + snippet.before.length + selected.length;
+
+    setText(text.slice(0, selection.start) + inserted + text.slice(selection.end));
+    setSelection({ start: cursor, end: cursor });
+    inputRef.current?.focus();
+  };
+
+  const jumpTo = (start: number, end: number) => {
+    setSelection({ start, end });
+    inputRef.current?.focus();
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(text);
+    } catch (e: any) {
+      setError(e.message || 'Error saving document');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Pressable style={[styles.button, styles.secondaryButton]} onPress={onCancel}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </Pressable>
+        <Text style={styles.status}>
+          {mathErrors.length > 0
+            ? `${mathErrors.length} formula error${mathErrors.length === 1 ? '' : 's'}`
+            : changed ? 'Unsaved changes' : 'No changes'}
+        </Text>
+        <Pressable
+          style={[styles.button, (!changed || saving) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!changed || saving}
+        >
+          <Text style={styles.buttonText}>{saving ? 'Saving...' : 'Save'}</Text>
+        </Pressable>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="always"
+        style={styles.toolbar}
+        contentContainerStyle={styles.toolbarContent}
+      >
+        {SNIPPETS.map(snippet => (
+          <Pressable key={snippet.label} style={styles.snippet} onPress={() => insertSnippet(snippet)}>
+            <Text style={styles.snippetText}>{snippet.label}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      {mathErrors.length > 0 && (
+        <ScrollView style={styles.errorList} keyboardShouldPersistTaps="always">
+          {mathErrors.map(mathError => (
+            <Pressable
+              key={`${mathError.start}-${mathError.end}`}
+              style={styles.errorRow}
+              onPress={() => jumpTo(mathError.start, mathError.end)}
+            >
+              <Ionicons name="alert-circle" size={16} color="#ef4444" />
+              <Text style={styles.errorRowText} numberOfLines={2}>
+                Line {mathError.line}: {mathError.message}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={[styles.panes, sideBySide && styles.panesSideBySide]}>
+        <TextInput
+          ref={inputRef}
+          style={[styles.editor, sideBySide ? styles.paneSideBySide : styles.paneStacked]}
+          value={text}
+          onChangeText={setText}
+          selection={selection}
+          onSelectionChange={event => setSelection(event.nativeEvent.selection)}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          spellCheck={false}
+          textAlignVertical="top"
+        />
+        <ScrollView
+          style={[styles.preview, sideBySide ? styles.paneSideBySide : styles.paneStacked]}
+          contentContainerStyle={styles.previewContent}
+        >
+          <MathContent content={preview} maxWidth={sideBySide ? width / 2 - 48 : width - 48} />
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  status: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#64748b',
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  toolbar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  toolbarContent: {
+    gap: 8,
+    padding: 8,
+  },
+  snippet: {
+    minWidth: 40,
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#e0e7ff',
+  },
+  snippetText: {
+    fontSize: 15,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  errorList: {
+    flexGrow: 0,
+    maxHeight: 96,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    backgroundColor: '#fef2f2',
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  errorRowText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#ef4444',
+  },
+  panes: {
+    flex: 1,
+  },
+  panesSideBySide: {
+    flexDirection: 'row',
+  },
+  paneStacked: {
+    flex: 1,
+  },
+  paneSideBySide: {
+    flex: 1,
+    width: '50%',
+  },
+  editor: {
+    padding: 16,
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#1e293b',
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+    borderColor: '#e5e7eb',
+    borderBottomWidth: 1,
+    borderRightWidth: 1,
+  },
+  preview: {
+    backgroundColor: '#f8fafc',
+  },
+  previewContent: {
+    padding: 16,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Image,
+  TextInput,
+  Pressable,
+  ScrollView,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { OcrLine } from '../lib/ocr';
+
+interface OcrReviewModalProps {
+  visible: boolean;
+  imageUrl: string;
+  mmd: string;
+  confidence: number;
+  lines: OcrLine[];
+  threshold: number;
+  onAccept: (mmd: string) => void | Promise<void>;
+  onReject: () => void;
+}
+
+export default function OcrReviewModal({
+  visible,
+  imageUrl,
+  mmd,
+  confidence,
+  lines,
+  threshold,
+  onAccept,
+  onReject,
+}: OcrReviewModalProps) {
+  const { width } = useWindowDimensions();
+  const sideBySide = width >= 700;
+  const [editedMmd, setEditedMmd] = useState(mmd);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEditedMmd(mmd);
+  }, [mmd]);
+
+  const handleAccept = async () => {
+    try {
+      setSaving(true);
+      await onAccept(editedMmd);
+    } catch (error) {
+      console.error('Error accepting reviewed content:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const lowConfidenceCount = lines.filter(
+    line => line.confidence !== undefined && line.confidence < threshold
+  ).length;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onReject}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={onReject} style={styles.headerButton}>
+            <Text style={styles.rejectText}>Discard</Text>
+          </Pressable>
+          <Text style={styles.title}>Review recognition</Text>
+          <Pressable onPress={handleAccept} style={styles.headerButton} disabled={saving}>
+            <Text style={styles.acceptText}>{saving ? 'Saving...' : 'Accept'}</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.banner}>
+          <Ionicons name="alert-circle" size={20} color="#b45309" />
+          <Text style={styles.bannerText}>
+            Recognized with {Math.round(confidence * 100)}% confidence
+            {lowConfidenceCount > 0 ? ` · ${lowConfidenceCount} uncertain lines highlighted` : ''}.
+            Check the text against the photo before accepting.
+          </Text>
+        </View>
+
+        <ScrollView contentContainerStyle={[styles.body, sideBySide && styles.bodyRow]}>
+          <View style={[styles.pane, sideBySide && styles.paneHalf]}>
+            <Image source={{ uri: imageUrl }} style={styles.image} resizeMode="contain" />
+          </View>
+
+          <View style={[styles.pane, sideBySide && styles.paneHalf]}>
+            <Text style={styles.sectionTitle}>MMD</Text>
+            <TextInput
+              style={styles.editor}
+              value={editedMmd}
+              onChangeText={setEditedMmd}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            {lines.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Recognized lines</Text>
+                {lines.map((line, index) => {
+                  const uncertain = line.confidence !== undefined && line.confidence < threshold;
+                  return (
+                    <View
+                      key={`line-${index}`}
+                      style={[styles.line, uncertain && styles.lineUncertain]}
+                    >
+                      <Text style={styles.lineText}>{line.text}</Text>
+                      {line.confidence !== undefined && (
+                        <Text style={[styles.lineConfidence, uncertain && styles.lineConfidenceLow]}>
+                          {Math.round(line.confidence * 100)}%
+                        </Text>
+                      )}
+                    </View>
+                  );
+                })}
+              </>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  rejectText: {
+    color: '#64748b',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  acceptText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef3c7',
+    padding: 12,
+    margin: 20,
+    marginBottom: 0,
+    borderRadius: 12,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400e',
+  },
+  body: {
+    padding: 20,
+    gap: 20,
+  },
+  bodyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  pane: {
+    width: '100%',
+  },
+  paneHalf: {
+    flex: 1,
+    width: undefined,
+  },
+  image: {
+    width: '100%',
+    height: 360,
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 8,
+  },
+  editor: {
+    minHeight: 160,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: '#1e293b',
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  lineUncertain: {
+    backgroundColor: '#fee2e2',
+  },
+  lineText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1e293b',
+    fontFamily: 'monospace',
+  },
+  lineConfidence: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lineConfidenceLow: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TextInput, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFolderStore } from '../stores/folderStore';
+import { Organization, normalizeTag } from '../lib/folders';
+
+interface OrganizeModalProps {
+  visible: boolean;
+  itemName: string;
+  organization: Organization;
+  suggestedTags: string[];
+  onSave: (organization: Organization) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function OrganizeModal({
+  visible,
+  itemName,
+  organization,
+  suggestedTags,
+  onSave,
+  onCancel,
+}: OrganizeModalProps) {
+  const folders = useFolderStore(state => state.folders);
+  const [folderId, setFolderId] = useState<string | undefined>(organization.folderId);
+  const [tags, setTags] = useState<string[]>(organization.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setFolderId(organization.folderId);
+      setTags(organization.tags ?? []);
+      setTagInput('');
+      setError(null);
+    }
+  }, [visible, organization]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      setTags(current => [...current, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const pending = normalizeTag(tagInput);
+      await onSave({
+        folderId,
+        tags: pending && !tags.includes(pending) ? [...tags, pending] : tags,
+      });
+    } catch (e: any) {
+      setError(e.message || 'Error saving changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const suggestions = suggestedTags.filter(tag => !tags.includes(tag));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Organize</Text>
+          <Text style={styles.itemName} numberOfLines={1}>{itemName}</Text>
+
+          <Text style={styles.sectionTitle}>Course or folder</Text>
+          <ScrollView style={styles.folderList}>
+            {[{ id: undefined, name: 'None' }, ...folders].map(folder => (
+              <Pressable
+                key={folder.id ?? 'none'}
+                style={styles.folderRow}
+                onPress={() => setFolderId(folder.id)}
+              >
+                <Ionicons
+                  name={folderId === folder.id ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color="#6366f1"
+                />
+                <Text style={styles.folderName}>{folder.name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          <Text style={styles.sectionTitle}>Tags</Text>
+          <View style={styles.tagList}>
+            {tags.map(tag => (
+              <Pressable
+                key={tag}
+                style={styles.tag}
+                onPress={() => setTags(current => current.filter(existing => existing !== tag))}
+              >
+                <Text style={styles.tagText}>#{tag}</Text>
+                <Ionicons name="close" size={14} color="#6366f1" />
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={tagInput}
+            onChangeText={setTagInput}
+            onSubmitEditing={() => addTag(tagInput)}
+            placeholder="Add a tag"
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="none"
+            blurOnSubmit={false}
+          />
+          {suggestions.length > 0 && (
+            <View style={styles.tagList}>
+              <Text style={styles.suggestionLabel}>Suggested:</Text>
+              {suggestions.map(tag => (
+                <Pressable key={tag} style={[styles.tag, styles.suggestedTag]} onPress={() => addTag(tag)}>
+                  <Ionicons name="add" size={14} color="#64748b" />
+                  <Text style={styles.suggestedTagText}>{tag}</Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.button, styles.secondaryButton]} onPress={onCancel}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={styles.button} onPress={handleSave} disabled={saving}>
+              <Text style={styles.buttonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  itemName: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  folderList: {
+    maxHeight: 180,
+  },
+  folderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  folderName: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  tagList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 16,
+    backgroundColor: '#e0e7ff',
+  },
+  tagText: {
+    fontSize: 14,
+    color: '#6366f1',
+  },
+  suggestedTag: {
+    backgroundColor: '#f1f5f9',
+  },
+  suggestedTagText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  suggestionLabel: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  input: {
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
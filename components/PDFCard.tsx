@@ -2,25 +2,85 @@ import React from 'react';
 import { View, Text, StyleSheet, Pressable } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
+import { ProcessingProgress } from '../lib/ocr';
+import { SyncState } from '../lib/sync';
+import ProgressBar from './ProgressBar';
+import SyncBadge from './SyncBadge';
 
 interface PDFCardProps {
   title: string;
   onPress: () => void;
+  progress?: ProcessingProgress;
+  syncState?: SyncState;
+  tags?: string[];
+  folderName?: string;
+  onRename?: () => void;
+  onOrganize?: () => void;
+  onDelete?: () => void;
 }
 
-export default function PDFCard({ title, onPress }: PDFCardProps) {
+export default function PDFCard({
+  title,
+  onPress,
+  progress,
+  syncState,
+  tags,
+  folderName,
+  onRename,
+  onOrganize,
+  onDelete,
+}: PDFCardProps) {
   return (
     <Pressable
       style={styles.cardContainer}
-      onPress={onPress}>
+      onPress={onPress}
+      disabled={!!progress}>
       <LinearGradient
         colors={['#6366f1', '#818cf8']}
         style={styles.card}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}>
         <Text style={styles.titleText}>{title}</Text>
+        {(folderName || (tags && tags.length > 0)) && (
+          <Text style={styles.labelsText} numberOfLines={1}>
+            {[folderName, ...(tags ?? []).map(tag => `#${tag}`)].filter(Boolean).join('  ')}
+          </Text>
+        )}
+        {(onRename || onOrganize || onDelete) && (
+          <View style={styles.actionsContainer}>
+            {onRename && (
+              <Pressable style={styles.actionButton} onPress={onRename} hitSlop={8}>
+                <Ionicons name="pencil" size={18} color="rgba(255,255,255,0.9)" />
+              </Pressable>
+            )}
+            {onOrganize && (
+              <Pressable style={styles.actionButton} onPress={onOrganize} hitSlop={8}>
+                <Ionicons name="folder-outline" size={18} color="rgba(255,255,255,0.9)" />
+              </Pressable>
+            )}
+            {onDelete && (
+              <Pressable style={styles.actionButton} onPress={onDelete} hitSlop={8}>
+                <Ionicons name="trash-outline" size={18} color="rgba(255,255,255,0.9)" />
+              </Pressable>
+            )}
+          </View>
+        )}
+        {syncState && (
+          <View style={styles.syncContainer}>
+            <SyncBadge state={syncState} showLabel={syncState !== 'synced'} light />
+          </View>
+        )}
+        {progress && (
+          <View style={styles.progressContainer}>
+            <ProgressBar progress={progress} light />
+          </View>
+        )}
         <View style={styles.iconContainer}>
-          <Ionicons name="document-text" size={24} color="rgba(255,255,255,0.8)" />
+          <Ionicons
+            name={progress ? 'hourglass' : 'document-text'}
+            size={24}
+            color="rgba(255,255,255,0.8)"
+          />
         </View>
       </LinearGradient>
     </Pressable>
@@ -54,6 +114,35 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     maxWidth: '80%',
   },
+  progressContainer: {
+    position: 'absolute',
+    left: 20,
+    right: 72,
+    bottom: 24,
+  },
+  labelsText: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.85)',
+    marginTop: 8,
+    maxWidth: '80%',
+  },
+  actionsContainer: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  actionButton: {
+    padding: 6,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  syncContainer: {
+    position: 'absolute',
+    top: 16,
+    right: 20,
+  },
   iconContainer: {
     position: 'absolute',
     bottom: 20,
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TextInput, Pressable } from 'react-native';
+import { parsePageRanges, formatPageRanges } from '../lib/pages';
+
+interface PageRangeModalProps {
+  visible: boolean;
+  filename: string;
+  onConfirm: (pageRanges: string | undefined) => void;
+  onCancel: () => void;
+}
+
+export default function PageRangeModal({ visible, filename, onConfirm, onCancel }: PageRangeModalProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setInput('');
+      setError(null);
+    }
+  }, [visible, filename]);
+
+  const handleConfirm = () => {
+    try {
+      const ranges = parsePageRanges(input);
+      onConfirm(ranges.length > 0 ? formatPageRanges(ranges) : undefined);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Select pages</Text>
+          <Text style={styles.filename} numberOfLines={1}>{filename}</Text>
+          <TextInput
+            style={styles.input}
+            value={input}
+            onChangeText={text => {
+              setInput(text);
+              setError(null);
+            }}
+            placeholder="All pages (e.g. 12-15, 20)"
+            placeholderTextColor="#94a3b8"
+            keyboardType="numbers-and-punctuation"
+            autoFocus
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.button, styles.secondaryButton]} onPress={onCancel}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={styles.button} onPress={handleConfirm}>
+              <Text style={styles.buttonText}>Upload</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  filename: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
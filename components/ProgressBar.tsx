@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ProcessingPhase, ProcessingProgress } from '../lib/ocr';
+
+interface ProgressBarProps {
+  progress: ProcessingProgress;
+  light?: boolean;
+}
+
+const PHASE_LABELS: Record<ProcessingPhase, string> = {
+  hashing: 'Checking for duplicates',
+  uploading: 'Uploading',
+  converting: 'Converting',
+  queued: 'Queued for recognition',
+  ocr: 'Recognizing text',
+  downloading: 'Downloading MMD',
+  saving: 'Saving',
+};
+
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) {
+    return `~${seconds}s left`;
+  }
+  return `~${Math.ceil(seconds / 60)} min left`;
+};
+
+export default function ProgressBar({ progress, light = false }: ProgressBarProps) {
+  const { phase, percentDone, numPages, numPagesCompleted, etaSeconds } = progress;
+  const details = [
+    numPages ? `${numPagesCompleted ?? 0}/${numPages} pages` : null,
+    etaSeconds !== undefined ? formatEta(etaSeconds) : null,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <Text style={[styles.label, light && styles.lightText]}>
+          {PHASE_LABELS[phase]}
+          {percentDone !== undefined ? ` · ${Math.round(percentDone)}%` : '...'}
+        </Text>
+        {details.length > 0 && (
+          <Text style={[styles.details, light && styles.lightText]}>{details.join(' · ')}</Text>
+        )}
+      </View>
+      <View style={[styles.track, light && styles.lightTrack]}>
+        <View
+          style={[
+            styles.fill,
+            light && styles.lightFill,
+            { width: `${Math.min(Math.max(percentDone ?? 0, 0), 100)}%` },
+          ]}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: 4,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  details: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  lightText: {
+    color: 'rgba(255,255,255,0.9)',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e0e7ff',
+    overflow: 'hidden',
+  },
+  lightTrack: {
+    backgroundColor: 'rgba(255,255,255,0.3)',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#6366f1',
+  },
+  lightFill: {
+    backgroundColor: '#ffffff',
+  },
+});
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TextInput, Pressable } from 'react-native';
+
+interface RenameModalProps {
+  visible: boolean;
+  currentName: string;
+  title?: string;
+  confirmLabel?: string;
+  placeholder?: string;
+  onConfirm: (name: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+export default function RenameModal({
+  visible,
+  currentName,
+  title = 'Rename document',
+  confirmLabel = 'Rename',
+  placeholder = 'Document name',
+  onConfirm,
+  onCancel,
+}: RenameModalProps) {
+  const [input, setInput] = useState(currentName);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setInput(currentName);
+      setError(null);
+    }
+  }, [visible, currentName]);
+
+  const handleConfirm = async () => {
+    if (!input.trim()) {
+      setError('The name cannot be empty');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onConfirm(input.trim());
+    } catch (e: any) {
+      setError(e.message || 'Error saving name');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{title}</Text>
+          <TextInput
+            style={styles.input}
+            value={input}
+            onChangeText={text => {
+              setInput(text);
+              setError(null);
+            }}
+            placeholder={placeholder}
+            placeholderTextColor="#94a3b8"
+            onSubmitEditing={handleConfirm}
+            autoFocus
+            selectTextOnFocus
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.button, styles.secondaryButton]} onPress={onCancel}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={styles.button} onPress={handleConfirm} disabled={saving}>
+              <Text style={styles.buttonText}>{saving ? 'Saving...' : confirmLabel}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#4b5563',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Image,
+  TextInput,
+  Pressable,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import ImagePreprocessModal from './ImagePreprocessModal';
+import { loadImage } from '../lib/imagePreprocessing';
+
+export interface ScannedPage {
+  uri: string;
+  mimeType: string;
+}
+
+interface ScanModalProps {
+  visible: boolean;
+  onSubmit: (name: string, pages: ScannedPage[]) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+const CAPTURE_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ImagePicker.MediaTypeOptions.Images,
+  allowsEditing: false,
+  quality: 1,
+};
+
+export default function ScanModal({ visible, onSubmit, onCancel }: ScanModalProps) {
+  const [name, setName] = useState('');
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [adjustingIndex, setAdjustingIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setName('');
+      setPages([]);
+      setError(null);
+    }
+  }, [visible]);
+
+  const capture = async (source: 'camera' | 'library'): Promise<ScannedPage | null> => {
+    setError(null);
+
+    if (source === 'camera') {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Permission to access the camera was denied');
+        return null;
+      }
+    } else {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Permission to access media library was denied');
+        return null;
+      }
+    }
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(CAPTURE_OPTIONS)
+      : await ImagePicker.launchImageLibraryAsync(CAPTURE_OPTIONS);
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return null;
+    }
+
+    // Phone photos are normalized and downsized right away; cropping is optional
+    const image = await loadImage(result.assets[0].uri);
+    return { uri: image.uri, mimeType: image.mimeType };
+  };
+
+  const addPage = async (source: 'camera' | 'library') => {
+    try {
+      const page = await capture(source);
+      if (page) {
+        setPages(current => [...current, page]);
+      }
+    } catch (e) {
+      console.error('Scan capture error:', e);
+      setError('Error capturing page');
+    }
+  };
+
+  const retakePage = async (index: number) => {
+    try {
+      const page = await capture('camera');
+      if (page) {
+        setPages(current => current.map((p, i) => (i === index ? page : p)));
+      }
+    } catch (e) {
+      console.error('Scan capture error:', e);
+      setError('Error capturing page');
+    }
+  };
+
+  const movePage = (index: number, offset: number) => {
+    setPages(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const deletePage = (index: number) => {
+    setPages(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (pages.length === 0) {
+      setError('Scan at least one page');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await onSubmit(name, pages);
+    } catch (e: any) {
+      setError(e.message || 'Error submitting scan');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={onCancel} style={styles.headerButton}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+          <Text style={styles.title}>Scan pages</Text>
+          <Pressable
+            onPress={handleSubmit}
+            style={styles.headerButton}
+            disabled={submitting || pages.length === 0}
+          >
+            <Text style={[styles.doneText, pages.length === 0 && styles.disabledText]}>
+              {submitting ? 'Adding...' : 'Done'}
+            </Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.nameRow}>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Document name (optional)"
+            placeholderTextColor="#94a3b8"
+          />
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ScrollView contentContainerStyle={styles.pageList}>
+          {pages.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="scan" size={48} color="#94a3b8" />
+              <Text style={styles.emptyText}>
+                Photograph each page of the worksheet. Pages are combined into one document in this order.
+              </Text>
+            </View>
+          ) : (
+            pages.map((page, index) => (
+              <View key={`${page.uri}-${index}`} style={styles.pageRow}>
+                <Image source={{ uri: page.uri }} style={styles.thumbnail} resizeMode="cover" />
+                <Text style={styles.pageLabel}>Page {index + 1}</Text>
+                <View style={styles.pageActions}>
+                  <Pressable
+                    style={styles.actionButton}
+                    onPress={() => movePage(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <Ionicons name="arrow-up" size={20} color={index === 0 ? '#cbd5e1' : '#6366f1'} />
+                  </Pressable>
+                  <Pressable
+                    style={styles.actionButton}
+                    onPress={() => movePage(index, 1)}
+                    disabled={index === pages.length - 1}
+                  >
+                    <Ionicons
+                      name="arrow-down"
+                      size={20}
+                      color={index === pages.length - 1 ? '#cbd5e1' : '#6366f1'}
+                    />
+                  </Pressable>
+                  <Pressable style={styles.actionButton} onPress={() => setAdjustingIndex(index)}>
+                    <Ionicons name="crop" size={20} color="#6366f1" />
+                  </Pressable>
+                  <Pressable style={styles.actionButton} onPress={() => retakePage(index)}>
+                    <Ionicons name="camera-reverse" size={20} color="#6366f1" />
+                  </Pressable>
+                  <Pressable style={styles.actionButton} onPress={() => deletePage(index)}>
+                    <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                  </Pressable>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Pressable
+            style={({ pressed }) => [styles.captureButton, pressed && styles.buttonPressed]}
+            onPress={() => addPage('camera')}
+          >
+            <Ionicons name="camera" size={24} color="#ffffff" />
+            <Text style={styles.captureButtonText}>Take photo</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.captureButton,
+              styles.secondaryButton,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={() => addPage('library')}
+          >
+            <Ionicons name="images" size={24} color="#6366f1" />
+            <Text style={styles.secondaryButtonText}>From library</Text>
+          </Pressable>
+        </View>
+
+        <ImagePreprocessModal
+          visible={adjustingIndex !== null}
+          uri={adjustingIndex !== null ? pages[adjustingIndex]?.uri ?? null : null}
+          onConfirm={image => {
+            setPages(current => current.map((page, i) => (
+              i === adjustingIndex ? { uri: image.uri, mimeType: image.mimeType } : page
+            )));
+            setAdjustingIndex(null);
+          }}
+          onCancel={() => setAdjustingIndex(null)}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  cancelText: {
+    color: '#64748b',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  doneText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledText: {
+    color: '#cbd5e1',
+  },
+  nameRow: {
+    padding: 20,
+    paddingBottom: 0,
+  },
+  nameInput: {
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  pageList: {
+    padding: 20,
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  pageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 84,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  pageLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  pageActions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 8,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  captureButton: {
+    flex: 1,
+    backgroundColor: '#6366f1',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  secondaryButton: {
+    backgroundColor: '#e0e7ff',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  captureButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
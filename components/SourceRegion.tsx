@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, Image, StyleSheet } from 'react-native';
+import { ExerciseSource } from '../lib/layout';
+
+interface SourceRegionProps {
+  source: ExerciseSource;
+  maxWidth: number;
+}
+
+// Shows the part of the original page image an exercise was extracted from
+export default function SourceRegion({ source, maxWidth }: SourceRegionProps) {
+  const { region } = source;
+  const scale = Math.min(maxWidth / region.width, 2);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.caption}>Page {source.page} of the original</Text>
+      <View
+        style={[
+          styles.viewport,
+          { width: region.width * scale, height: region.height * scale },
+        ]}
+      >
+        <Image
+          source={{ uri: source.imageUrl }}
+          style={{
+            position: 'absolute',
+            left: -region.x * scale,
+            top: -region.y * scale,
+            width: source.pageWidth * scale,
+            height: source.pageHeight * scale,
+          }}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  caption: {
+    alignSelf: 'flex-start',
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  viewport: {
+    overflow: 'hidden',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f1f5f9',
+  },
+});
@@ -0,0 +1,44 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SyncState } from '../lib/sync';
+
+interface SyncBadgeProps {
+  state?: SyncState;
+  // Shows the label next to the icon
+  showLabel?: boolean;
+  light?: boolean;
+}
+
+const BADGES: Record<SyncState, { icon: keyof typeof Ionicons.glyphMap; label: string; color: string }> = {
+  synced: { icon: 'cloud-done-outline', label: 'Synced', color: '#64748b' },
+  pending: { icon: 'cloud-upload-outline', label: 'Waiting to sync', color: '#6366f1' },
+  conflict: { icon: 'git-compare-outline', label: 'Changed on another device', color: '#f59e0b' },
+  error: { icon: 'alert-circle-outline', label: 'Sync failed', color: '#ef4444' },
+};
+
+export default function SyncBadge({ state, showLabel = false, light = false }: SyncBadgeProps) {
+  if (!state) return null;
+
+  const badge = BADGES[state];
+  const color = light ? '#ffffff' : badge.color;
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name={badge.icon} size={16} color={color} />
+      {showLabel && <Text style={[styles.label, { color }]}>{badge.label}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+});
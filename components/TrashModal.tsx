@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentRecord } from '../lib/documents';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from '../lib/trash';
+
+interface TrashModalProps {
+  visible: boolean;
+  documents: DocumentRecord[];
+  onRestore: (record: DocumentRecord) => Promise<void>;
+  onPurge: (records: DocumentRecord[]) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function TrashModal({ visible, documents, onRestore, onPurge, onClose }: TrashModalProps) {
+  // Permanent deletion needs a second tap; 'all' stands for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setConfirming(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    try {
+      setBusyId(id);
+      setError(null);
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong');
+    } finally {
+      setBusyId(null);
+      setConfirming(null);
+    }
+  };
+
+  const handlePurge = (id: string, records: DocumentRecord[]) => {
+    if (confirming !== id) {
+      setConfirming(id);
+      return;
+    }
+    run(id, () => onPurge(records));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Trash</Text>
+          <Pressable onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.closeText}>Close</Text>
+          </Pressable>
+        </View>
+
+        <Text style={styles.infoText}>
+          Deleted documents are kept for {TRASH_RETENTION_DAYS} days, together with their exercises,
+          solutions and answers.
+        </Text>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {documents.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="trash-outline" size={48} color="#94a3b8" />
+              <Text style={styles.emptyText}>The trash is empty</Text>
+            </View>
+          ) : (
+            documents.map(record => (
+              <View key={record.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>{record.title}</Text>
+                  <Text style={styles.rowMeta}>
+                    Deleted permanently in {daysUntilPurge(record)} days
+                  </Text>
+                </View>
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => run(record.id, () => onRestore(record))}
+                  disabled={busyId !== null}
+                >
+                  <Ionicons name="arrow-undo" size={20} color="#6366f1" />
+                </Pressable>
+                <Pressable
+                  style={[styles.actionButton, confirming === record.id && styles.confirmButton]}
+                  onPress={() => handlePurge(record.id, [record])}
+                  disabled={busyId !== null}
+                >
+                  {confirming === record.id ? (
+                    <Text style={styles.confirmText}>Delete</Text>
+                  ) : (
+                    <Ionicons name="trash" size={20} color="#ef4444" />
+                  )}
+                </Pressable>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        {documents.length > 0 && (
+          <View style={styles.footer}>
+            <Pressable
+              style={({ pressed }) => [styles.emptyButton, pressed && styles.buttonPressed]}
+              onPress={() => handlePurge('all', documents)}
+              disabled={busyId !== null}
+            >
+              <Text style={styles.emptyButtonText}>
+                {busyId === 'all'
+                  ? 'Deleting...'
+                  : confirming === 'all' ? 'Tap again to delete everything' : 'Empty trash'}
+              </Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  closeText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 16,
+    marginHorizontal: 20,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  list: {
+    padding: 20,
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  actionButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#ef4444',
+  },
+  confirmText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  emptyButton: {
+    backgroundColor: '#fee2e2',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  emptyButtonText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,69 +1,65 @@
-import React, { useState } from 'react';
-import { View, StyleSheet, Text, Pressable, Platform } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as DocumentPicker from 'expo-document-picker';
 import * as ImagePicker from 'expo-image-picker';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '../lib/firebase';
 import { useAuthStore } from '../stores/authStore';
-import { processWithMathpix } from '../lib/mathpix';
+import { useUploadQueueStore, onJobCompleted } from '../stores/uploadQueueStore';
+import UploadQueue from './UploadQueue';
+import PageRangeModal from './PageRangeModal';
+import ScanModal, { ScannedPage } from './ScanModal';
+import ImagePreprocessModal from './ImagePreprocessModal';
+import { PreprocessedImage } from '../lib/imagePreprocessing';
+import { getImportFormat } from '../lib/importers';
+
+interface PendingPdf {
+  uri: string;
+  name: string;
+}
 
 interface UploadBarProps {
-  onNewDocument: (title: string, content: string) => void;
+  onNewDocument: (title: string, content: string, documentId?: string) => void;
 }
 
 export default function UploadBar({ onNewDocument }: UploadBarProps) {
-  const [uploading, setUploading] = useState(false);
-  const [processingStatus, setProcessingStatus] = useState<string>('');
+  const [pickError, setPickError] = useState<string | null>(null);
+  const [pendingPdfs, setPendingPdfs] = useState<PendingPdf[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [pendingImageUri, setPendingImageUri] = useState<string | null>(null);
   const { user } = useAuthStore();
+  const { hydrate, enqueue, enqueueScan } = useUploadQueueStore();
+
+  useEffect(() => {
+    if (user) {
+      hydrate(user.uid);
+    }
+  }, [user, hydrate]);
 
-  const handleUpload = async (file: Blob, filename: string) => {
+  useEffect(() => {
+    return onJobCompleted((job, result) => {
+      if (job.userId === user?.uid) {
+        onNewDocument(result.title, result.mmd, result.documentId);
+      }
+    });
+  }, [user, onNewDocument]);
+
+  const addToQueue = async (uri: string, name: string, pageRanges?: string) => {
     if (!user) return;
 
     try {
-      setUploading(true);
-      setProcessingStatus('Uploading file...');
+      const blob = await fetch(uri).then(r => r.blob());
 
       // Log file details
       console.log('File details:', {
-        size: file.size,
-        type: file.type,
-        name: filename
+        size: blob.size,
+        type: blob.type,
+        name
       });
 
-      // Validate file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        throw new Error('File size exceeds 5MB limit');
-      }
-
-      // Validate file type
-      if (!file.type.match(/^(application\/pdf|image\/(jpeg|png|jpg))$/)) {
-        throw new Error('Invalid file type. Please upload a PDF or image file (JPEG/PNG)');
-      }
-
-      const storageRef = ref(storage, `uploads/${user.uid}/${filename}`);
-      await uploadBytes(storageRef, file);
-      const downloadURL = await getDownloadURL(storageRef);
-      
-      console.log('File uploaded successfully, processing with Mathpix...');
-      setProcessingStatus('Processing with Mathpix...');
-      
-      const mathpixResult = await processWithMathpix(downloadURL, user.uid, filename);
-      
-      if (mathpixResult.mmd) {
-        const title = filename.replace(/\.[^/.]+$/, "");
-        onNewDocument(title, mathpixResult.mmd);
-        setProcessingStatus('Content processed successfully!');
-      } else {
-        throw new Error('No content was generated from the file');
-      }
+      enqueue(user.uid, { uri, name, mimeType: blob.type, size: blob.size, pageRanges }, user.subscription.role);
     } catch (error: any) {
-      console.error('Upload/Processing error:', error);
-      const errorMessage = error.message || 'Error processing file';
-      setProcessingStatus(`Error: ${errorMessage}`);
-    } finally {
-      setUploading(false);
-      setTimeout(() => setProcessingStatus(''), 3000);
+      console.error('Error reading file:', error);
+      setPickError(error.message || `Could not read ${name}`);
     }
   };
 
@@ -71,24 +67,80 @@ export default function UploadBar({ onNewDocument }: UploadBarProps) {
     if (!user) return;
 
     try {
+      setPickError(null);
       const result = await DocumentPicker.getDocumentAsync({
         type: ['application/pdf'],
-        multiple: false,
+        multiple: true,
       });
 
       if (result.canceled) {
         return;
       }
 
-      const asset = result.assets[0];
-      const fileToUpload = Platform.OS === 'web' 
-        ? await fetch(asset.uri).then(r => r.blob())
-        : await fetch(asset.uri).then(r => r.blob());
+      // Each PDF gets a page selection step before it is queued
+      setPendingPdfs(result.assets.map(asset => ({
+        uri: asset.uri,
+        name: asset.name || `upload-${Date.now()}.pdf`,
+      })));
+    } catch (error) {
+      console.error('Document pick error:', error);
+      setPickError('Error selecting file');
+    }
+  };
+
+  const handlePageRangeConfirm = async (pageRanges: string | undefined) => {
+    const [current, ...rest] = pendingPdfs;
+    setPendingPdfs(rest);
+    if (!current) return;
 
-      await handleUpload(fileToUpload, asset.name || `upload-${Date.now()}.pdf`);
+    try {
+      await addToQueue(current.uri, current.name, pageRanges);
     } catch (error) {
       console.error('Document pick error:', error);
-      setProcessingStatus('Error selecting file');
+      setPickError('Error selecting file');
+    }
+  };
+
+  const handleScanSubmit = async (name: string, pages: ScannedPage[]) => {
+    if (!user) return;
+
+    const sizedPages = await Promise.all(pages.map(async page => {
+      const blob = await fetch(page.uri).then(r => r.blob());
+      return { uri: page.uri, mimeType: blob.type || page.mimeType, size: blob.size };
+    }));
+
+    // Validation errors are thrown so the scan modal stays open and shows them
+    enqueueScan(user.uid, { name, pages: sizedPages }, user.subscription.role);
+    setScanning(false);
+  };
+
+  const handleImportPick = async () => {
+    if (!user) return;
+
+    try {
+      setPickError(null);
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        multiple: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const unsupported = result.assets.filter(asset => !getImportFormat(asset.name));
+      if (unsupported.length > 0) {
+        setPickError(`Unsupported file: ${unsupported[0].name}. Import .tex, .md, .mmd, .txt or .docx files`);
+      }
+
+      for (const asset of result.assets) {
+        if (getImportFormat(asset.name)) {
+          await addToQueue(asset.uri, asset.name);
+        }
+      }
+    } catch (error) {
+      console.error('Import pick error:', error);
+      setPickError('Error selecting file');
     }
   };
 
@@ -96,15 +148,16 @@ export default function UploadBar({ onNewDocument }: UploadBarProps) {
     if (!user) return;
 
     try {
+      setPickError(null);
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
       if (status !== 'granted') {
-        setProcessingStatus('Permission to access media library was denied');
+        setPickError('Permission to access media library was denied');
         return;
       }
 
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
+        allowsEditing: false,
         quality: 1,
         allowsMultipleSelection: false,
       });
@@ -120,32 +173,33 @@ export default function UploadBar({ onNewDocument }: UploadBarProps) {
           uri: asset.uri
         });
 
-        const response = await fetch(asset.uri);
-        const blob = await response.blob();
-        
-        // Log blob details
-        console.log('Image blob details:', {
-          size: blob.size,
-          type: blob.type
-        });
-
-        const filename = `image-${Date.now()}.${blob.type.split('/')[1] || 'jpg'}`;
-        await handleUpload(blob, filename);
+        // Crop, rotation and downsizing happen before the image is queued
+        setPendingImageUri(asset.uri);
       }
     } catch (error) {
       console.error('Image pick error:', error);
-      setProcessingStatus('Error selecting image');
+      setPickError('Error selecting image');
     }
   };
 
+  const handleImagePreprocessed = (image: PreprocessedImage) => {
+    if (!user) return;
+
+    enqueue(user.uid, {
+      uri: image.uri,
+      name: `image-${Date.now()}.jpg`,
+      mimeType: image.mimeType,
+      size: image.size,
+    }, user.subscription.role);
+    setPendingImageUri(null);
+  };
+
   return (
     <View style={styles.container}>
-      {processingStatus ? (
-        <Text style={[
-          styles.statusText,
-          processingStatus.startsWith('Error') && styles.errorText
-        ]}>
-          {processingStatus}
+      <UploadQueue />
+      {pickError ? (
+        <Text style={[styles.statusText, styles.errorText]}>
+          {pickError}
         </Text>
       ) : null}
       <View style={styles.buttonContainer}>
@@ -153,38 +207,65 @@ export default function UploadBar({ onNewDocument }: UploadBarProps) {
           style={({ pressed }) => [
             styles.uploadButton,
             pressed && styles.buttonPressed,
-            uploading && styles.buttonDisabled,
           ]}
-          onPress={handleDocumentPick}
-          disabled={uploading}>
-          <Ionicons 
-            name={uploading ? "cloud-upload" : "document"} 
-            size={24} 
-            color="#ffffff" 
-          />
-          <Text style={styles.buttonText}>
-            {uploading ? 'Processing...' : 'Upload PDF'}
-          </Text>
+          onPress={handleDocumentPick}>
+          <Ionicons name="document" size={24} color="#ffffff" />
+          <Text style={styles.buttonText}>Upload PDF</Text>
+        </Pressable>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.uploadButton,
+            pressed && styles.buttonPressed,
+          ]}
+          onPress={handleImagePick}>
+          <Ionicons name="image" size={24} color="#ffffff" />
+          <Text style={styles.buttonText}>Upload Image</Text>
+        </Pressable>
+
+        <Pressable
+          style={({ pressed }) => [
+            styles.uploadButton,
+            pressed && styles.buttonPressed,
+          ]}
+          onPress={() => {
+            setPickError(null);
+            setScanning(true);
+          }}>
+          <Ionicons name="scan" size={24} color="#ffffff" />
+          <Text style={styles.buttonText}>Scan</Text>
         </Pressable>
 
         <Pressable
           style={({ pressed }) => [
             styles.uploadButton,
             pressed && styles.buttonPressed,
-            uploading && styles.buttonDisabled,
           ]}
-          onPress={handleImagePick}
-          disabled={uploading}>
-          <Ionicons 
-            name={uploading ? "cloud-upload" : "image"} 
-            size={24} 
-            color="#ffffff" 
-          />
-          <Text style={styles.buttonText}>
-            {uploading ? 'Processing...' : 'Upload Image'}
-          </Text>
+          onPress={handleImportPick}>
+          <Ionicons name="document-text" size={24} color="#ffffff" />
+          <Text style={styles.buttonText}>Import</Text>
         </Pressable>
       </View>
+
+      <PageRangeModal
+        visible={pendingPdfs.length > 0}
+        filename={pendingPdfs[0]?.name ?? ''}
+        onConfirm={handlePageRangeConfirm}
+        onCancel={() => setPendingPdfs(rest => rest.slice(1))}
+      />
+
+      <ImagePreprocessModal
+        visible={pendingImageUri !== null}
+        uri={pendingImageUri}
+        onConfirm={handleImagePreprocessed}
+        onCancel={() => setPendingImageUri(null)}
+      />
+
+      <ScanModal
+        visible={scanning}
+        onSubmit={handleScanSubmit}
+        onCancel={() => setScanning(false)}
+      />
     </View>
   );
 }
@@ -206,10 +287,12 @@ const styles = StyleSheet.create({
   },
   buttonContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
   },
   uploadButton: {
     flex: 1,
+    minWidth: '40%',
     backgroundColor: '#6366f1',
     flexDirection: 'row',
     alignItems: 'center',
@@ -221,9 +304,6 @@ const styles = StyleSheet.create({
   buttonPressed: {
     opacity: 0.8,
   },
-  buttonDisabled: {
-    backgroundColor: '#a5b4fc',
-  },
   buttonText: {
     color: '#ffffff',
     fontSize: 16,
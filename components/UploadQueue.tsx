@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { UploadJob, UploadJobKind, UploadJobState, getJobKind, isActiveJob } from '../lib/uploadJobs';
+import { useUploadQueueStore } from '../stores/uploadQueueStore';
+import { getConfidenceThreshold, DEFAULT_CONFIDENCE_THRESHOLD } from '../lib/settings';
+import ProgressBar from './ProgressBar';
+import OcrReviewModal from './OcrReviewModal';
+
+const KIND_ICONS: Record<UploadJobKind, keyof typeof Ionicons.glyphMap> = {
+  pdf: 'document',
+  image: 'image',
+  import: 'document-text',
+  scan: 'scan',
+};
+
+const STATE_LABELS: Record<UploadJobState, string> = {
+  queued: 'Waiting...',
+  uploading: 'Uploading file...',
+  processing: 'Recognizing content...',
+  review: 'Low confidence, needs review',
+  completed: 'Content processed successfully!',
+  failed: 'Error',
+  cancelled: 'Cancelled',
+};
+
+function JobRow({ job, onReview }: { job: UploadJob; onReview: () => void }) {
+  const { retry, reprocess, cancel, remove } = useUploadQueueStore();
+  const active = isActiveJob(job);
+  const failed = job.state === 'failed';
+
+  return (
+    <View style={styles.jobRow}>
+      <Ionicons
+        name={KIND_ICONS[getJobKind(job)]}
+        size={20}
+        color="#6366f1"
+      />
+      <View style={styles.jobInfo}>
+        <Text style={styles.jobTitle} numberOfLines={1}>{job.filename}</Text>
+        {active && job.progress ? (
+          <View style={styles.progress}>
+            <ProgressBar progress={job.progress} />
+          </View>
+        ) : (
+          <Text style={[styles.jobStatus, failed && styles.errorText]} numberOfLines={2}>
+            {failed && job.error
+              ? `Error: ${job.error}`
+              : job.duplicateOf
+                ? `Already uploaded as "${job.duplicateOf}", reused existing content`
+                : STATE_LABELS[job.state]}
+          </Text>
+        )}
+      </View>
+      {active ? (
+        <Pressable style={styles.actionButton} onPress={() => cancel(job.id)}>
+          <Ionicons name="close-circle" size={22} color="#94a3b8" />
+        </Pressable>
+      ) : (
+        <>
+          {job.state === 'review' && (
+            <Pressable style={styles.actionButton} onPress={onReview}>
+              <Ionicons name="eye" size={22} color="#6366f1" />
+            </Pressable>
+          )}
+          {job.duplicateOf && (
+            <Pressable style={styles.actionButton} onPress={() => reprocess(job.id)}>
+              <Ionicons name="reload" size={22} color="#6366f1" />
+            </Pressable>
+          )}
+          {(failed || job.state === 'cancelled') && (
+            <Pressable style={styles.actionButton} onPress={() => retry(job.id)}>
+              <Ionicons name="refresh" size={22} color="#6366f1" />
+            </Pressable>
+          )}
+          <Pressable style={styles.actionButton} onPress={() => remove(job.id)}>
+            <Ionicons name="trash-outline" size={20} color="#94a3b8" />
+          </Pressable>
+        </>
+      )}
+    </View>
+  );
+}
+
+export default function UploadQueue() {
+  const { jobs, clearFinished, acceptReview, cancel } = useUploadQueueStore();
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+
+  useEffect(() => {
+    if (reviewJobId) {
+      getConfidenceThreshold().then(setThreshold);
+    }
+  }, [reviewJobId]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const hasFinished = jobs.some(job => !isActiveJob(job) && job.state !== 'review');
+  const reviewJob = jobs.find(job => job.id === reviewJobId && job.state === 'review');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerText}>Uploads</Text>
+        {hasFinished && (
+          <Pressable onPress={clearFinished}>
+            <Text style={styles.clearText}>Clear finished</Text>
+          </Pressable>
+        )}
+      </View>
+      {jobs.map(job => (
+        <JobRow key={job.id} job={job} onReview={() => setReviewJobId(job.id)} />
+      ))}
+
+      {reviewJob?.review && reviewJob.downloadUrl && (
+        <OcrReviewModal
+          visible
+          imageUrl={reviewJob.downloadUrl}
+          mmd={reviewJob.review.mmd}
+          confidence={reviewJob.review.confidence}
+          lines={reviewJob.review.lines}
+          threshold={threshold}
+          onAccept={async mmd => {
+            await acceptReview(reviewJob.id, mmd);
+            setReviewJobId(null);
+          }}
+          onReject={() => {
+            cancel(reviewJob.id);
+            setReviewJobId(null);
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  jobStatus: {
+    fontSize: 13,
+    color: '#4b5563',
+    marginTop: 2,
+  },
+  progress: {
+    marginTop: 6,
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  actionButton: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,432 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../stores/authStore';
+import { useUploadQueueStore } from '../stores/uploadQueueStore';
+import { fetchDocumentRecord, DocumentRecord } from '../lib/documents';
+import { canRecognizeAgain } from '../lib/uploadJobs';
+import {
+  DocumentVersion,
+  VersionSource,
+  fetchVersions,
+  loadVersionContent,
+  revertToVersion,
+} from '../lib/versions';
+import { DiffLine, diffLines, sideBySide } from '../lib/diff';
+import { formatBytes } from '../lib/usage';
+
+interface VersionHistoryModalProps {
+  visible: boolean;
+  documentId: string;
+  currentContent: string;
+  onReverted: (content: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  ocr: 'Recognized',
+  edit: 'Edited',
+  import: 'Imported',
+  revert: 'Reverted',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export default function VersionHistoryModal({
+  visible,
+  documentId,
+  currentContent,
+  onReverted,
+  onClose,
+}: VersionHistoryModalProps) {
+  const { user } = useAuthStore();
+  const recognizeAgain = useUploadQueueStore(state => state.recognizeAgain);
+  const [record, setRecord] = useState<DocumentRecord | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<DocumentVersion | null>(null);
+  // The selected version is compared with the current text or with the version before it
+  const [compareWith, setCompareWith] = useState<'current' | 'previous'>('current');
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !user) return;
+
+    setSelected(null);
+    setMessage(null);
+    setError(null);
+    setLoading(true);
+    Promise.all([fetchVersions(user.uid, documentId), fetchDocumentRecord(user.uid, documentId)])
+      .then(([loadedVersions, loadedRecord]) => {
+        setVersions(loadedVersions);
+        setRecord(loadedRecord);
+      })
+      .catch(() => setError('Could not load the version history'))
+      .finally(() => setLoading(false));
+  }, [visible, user, documentId]);
+
+  const previousVersion = selected ? versions[versions.indexOf(selected) + 1] : undefined;
+
+  const loadContent = async (version: DocumentVersion) => {
+    if (contents[version.id] !== undefined) return;
+
+    const content = await loadVersionContent(version);
+    setContents(prev => ({ ...prev, [version.id]: content }));
+  };
+
+  const selectVersion = async (version: DocumentVersion) => {
+    setSelected(version);
+    setCompareWith('current');
+    setError(null);
+    try {
+      await loadContent(version);
+      const before = versions[versions.indexOf(version) + 1];
+      if (before) {
+        await loadContent(before);
+      }
+    } catch (e) {
+      console.error('Error loading version:', e);
+      setError('Could not load this version');
+    }
+  };
+
+  const rows = useMemo(() => {
+    if (!selected || contents[selected.id] === undefined) return [];
+
+    if (compareWith === 'previous') {
+      const before = previousVersion ? contents[previousVersion.id] : '';
+      return before === undefined ? [] : sideBySide(diffLines(before, contents[selected.id]));
+    }
+    return sideBySide(diffLines(contents[selected.id], currentContent));
+  }, [selected, compareWith, previousVersion, contents, currentContent]);
+
+  const handleRevert = async () => {
+    if (!user || !selected) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const content = await revertToVersion(user.uid, selected, currentContent, user.email ?? undefined);
+      onReverted(content);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || 'Error reverting to this version');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRecognizeAgain = async () => {
+    if (!record) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      await recognizeAgain(record);
+      setMessage('Recognition started. The result will be added here as a new version.');
+    } catch (e: any) {
+      setError(e.message || 'Error starting recognition');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderSide = (line: DiffLine | undefined, side: 'left' | 'right') => (
+    <View
+      style={[
+        styles.diffCell,
+        side === 'left' && styles.diffCellLeft,
+        !line && styles.diffCellEmpty,
+        line?.type === 'removed' && styles.removedCell,
+        line?.type === 'added' && styles.addedCell,
+      ]}
+    >
+      {line && (
+        <>
+          <Text style={styles.lineNumber}>{side === 'left' ? line.oldNumber : line.newNumber}</Text>
+          <Text style={styles.diffText}>{line.text || ' '}</Text>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          {selected ? (
+            <Pressable onPress={() => setSelected(null)} style={styles.headerButton}>
+              <Ionicons name="chevron-back" size={22} color="#6366f1" />
+            </Pressable>
+          ) : (
+            <View style={styles.headerButton} />
+          )}
+          <Text style={styles.title}>{selected ? formatDate(selected.createdAt) : 'Version history'}</Text>
+          <Pressable onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.closeText}>Close</Text>
+          </Pressable>
+        </View>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {message && <Text style={styles.infoText}>{message}</Text>}
+
+        {!selected ? (
+          <ScrollView contentContainerStyle={styles.list}>
+            {record && canRecognizeAgain(record) && (
+              <Pressable
+                style={({ pressed }) => [styles.recognizeButton, pressed && styles.buttonPressed]}
+                onPress={handleRecognizeAgain}
+                disabled={busy || !!message}
+              >
+                <Ionicons name="scan" size={18} color="#6366f1" />
+                <Text style={styles.recognizeText}>Run recognition again</Text>
+              </Pressable>
+            )}
+            {loading ? (
+              <Text style={styles.emptyText}>Loading versions...</Text>
+            ) : versions.length === 0 ? (
+              <Text style={styles.emptyText}>
+                This document hasn't changed since it was added. Edits and new recognitions will show up here.
+              </Text>
+            ) : (
+              versions.map((version, index) => (
+                <Pressable key={version.id} style={styles.row} onPress={() => selectVersion(version)}>
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>
+                      {SOURCE_LABELS[version.source]}
+                      {index === 0 ? ' · Current' : ''}
+                    </Text>
+                    <Text style={styles.rowMeta}>
+                      {formatDate(version.createdAt)}
+                      {version.author ? ` · ${version.author}` : ''}
+                      {` · ${formatBytes(version.size)}`}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+                </Pressable>
+              ))
+            )}
+          </ScrollView>
+        ) : (
+          <>
+            <View style={styles.compareRow}>
+              {(['current', 'previous'] as const).map(option => (
+                <Pressable
+                  key={option}
+                  style={[styles.chip, compareWith === option && styles.chipSelected]}
+                  onPress={() => setCompareWith(option)}
+                  disabled={option === 'previous' && !previousVersion}
+                >
+                  <Text style={[styles.chipText, compareWith === option && styles.chipTextSelected]}>
+                    {option === 'current' ? 'This version → current' : 'Previous → this version'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <ScrollView style={styles.diff} contentContainerStyle={styles.diffContent}>
+              {rows.length === 0 ? (
+                <Text style={styles.emptyText}>Loading...</Text>
+              ) : rows.every(row => row.left === row.right) ? (
+                <Text style={styles.emptyText}>No differences</Text>
+              ) : (
+                rows.map((row, index) => (
+                  <View key={index} style={styles.diffRow}>
+                    {renderSide(row.left, 'left')}
+                    {renderSide(row.right, 'right')}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+            {versions.indexOf(selected) > 0 && (
+              <View style={styles.footer}>
+                <Pressable
+                  style={({ pressed }) => [styles.revertButton, pressed && styles.buttonPressed]}
+                  onPress={handleRevert}
+                  disabled={busy}
+                >
+                  <Text style={styles.revertText}>{busy ? 'Reverting...' : 'Revert to this version'}</Text>
+                </Pressable>
+              </View>
+            )}
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  closeText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 12,
+    marginHorizontal: 20,
+  },
+  list: {
+    padding: 20,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+  recognizeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+  },
+  recognizeText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  compareRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    padding: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e0e7ff',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  diff: {
+    flex: 1,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  diffContent: {
+    paddingVertical: 8,
+  },
+  diffRow: {
+    flexDirection: 'row',
+  },
+  removedCell: {
+    backgroundColor: '#fef2f2',
+  },
+  addedCell: {
+    backgroundColor: '#f0fdf4',
+  },
+  diffCell: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  diffCellLeft: {
+    borderRightWidth: 1,
+    borderRightColor: '#e5e7eb',
+  },
+  diffCellEmpty: {
+    backgroundColor: '#f1f5f9',
+  },
+  lineNumber: {
+    width: 28,
+    textAlign: 'right',
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  diffText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1e293b',
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  revertButton: {
+    backgroundColor: '#6366f1',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  revertText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -5,9 +5,13 @@ import * as MediaLibrary from 'expo-media-library';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { storage } from '../../lib/firebase';
 import { validateAnswer } from '../../lib/answerValidation';
-import { processWithMathpix } from '../../lib/mathpix';
-
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+import { getOcrProvider, OcrImageResult, OcrLine } from '../../lib/ocr';
+import { getConfidenceThreshold, DEFAULT_CONFIDENCE_THRESHOLD } from '../../lib/settings';
+import { PreprocessedImage } from '../../lib/imagePreprocessing';
+import { findUploadByHash, hashUri, recordUpload, uploadStillExists } from '../../lib/uploadIndex';
+import { saveAttempt } from '../../lib/exercises';
+import { checkFileSize, checkQuota } from '../../lib/usage';
+import { useAuthStore } from '../../stores/authStore';
 
 export function useImageUpload(
   userId: string | undefined, 
@@ -25,7 +29,17 @@ export function useImageUpload(
     mistakes?: string[];
     tips?: string[];
   } | null>(null);
+  const [pendingReview, setPendingReview] = useState<{
+    imageUrl: string;
+    mmd: string;
+    confidence: number;
+    lines: OcrLine[];
+  } | null>(null);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+  // Picked image waiting for crop/rotation before it is uploaded
+  const [pendingImageUri, setPendingImageUri] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const role = useAuthStore(state => state.user?.subscription.role ?? 'free');
 
   const showError = (message: string) => {
     setUploadError(message);
@@ -36,10 +50,8 @@ export function useImageUpload(
   };
 
   const validateFile = (file: File | Blob) => {
-    if (file.size > MAX_FILE_SIZE) {
-      throw new Error(`File size exceeds 5MB limit (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
-    }
-    
+    checkFileSize(role, file.size);
+
     if (!file.type.startsWith('image/')) {
       throw new Error(`Invalid file type: ${file.type}. Please select an image file.`);
     }
@@ -66,6 +78,85 @@ export function useImageUpload(
     }
   };
 
+  const validateRecognizedAnswer = async (answerMmd: string, imageUrl: string) => {
+    if (!solution) return;
+
+    console.log('Validating answer...');
+    const { data: validationResult } = await validateAnswer(answerMmd, question, solution);
+    setValidation(validationResult);
+    console.log('Validation result:', validationResult);
+
+    if (userId) {
+      await saveAttempt(userId, {
+        exerciseId,
+        subExerciseId,
+        imageUrl,
+        answer: answerMmd,
+        ...validationResult,
+      });
+    }
+  };
+
+  // Low-confidence recognitions are handed to the user for review instead of validated directly
+  const recognizeAnswer = async (downloadURL: string, hash: string, cached: OcrImageResult | null) => {
+    if (!solution || !userId) return;
+
+    let ocrResult = cached;
+    if (!ocrResult) {
+      console.log('Recognizing answer content...');
+      const provider = getOcrProvider();
+      ocrResult = await provider.recognizeImage(downloadURL);
+      await recordUpload(userId, {
+        hash,
+        kind: 'answer',
+        ocrProvider: provider.name,
+        exerciseId,
+        downloadUrl: downloadURL,
+        mmd: ocrResult.mmd,
+        confidence: ocrResult.confidence,
+        lines: ocrResult.lines,
+      });
+    }
+    console.log('OCR result:', ocrResult);
+
+    if (!ocrResult.mmd) {
+      console.warn('No MMD content received from OCR');
+      return;
+    }
+
+    const threshold = await getConfidenceThreshold();
+    setConfidenceThreshold(threshold);
+
+    if (ocrResult.confidence !== undefined && ocrResult.confidence < threshold) {
+      setPendingReview({
+        imageUrl: downloadURL,
+        mmd: ocrResult.mmd,
+        confidence: ocrResult.confidence,
+        lines: ocrResult.lines ?? [],
+      });
+      return;
+    }
+
+    await validateRecognizedAnswer(ocrResult.mmd, downloadURL);
+  };
+
+  const acceptReview = async (mmd: string) => {
+    const imageUrl = pendingReview?.imageUrl ?? '';
+    setPendingReview(null);
+    try {
+      setUploading(true);
+      await validateRecognizedAnswer(mmd, imageUrl);
+    } catch (error: any) {
+      showError(error.message || 'Failed to validate answer');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const rejectReview = () => {
+    setPendingReview(null);
+  };
+
   const uploadImage = async (uri: string) => {
     if (!userId) {
       throw new Error('User not authenticated');
@@ -74,9 +165,23 @@ export function useImageUpload(
     try {
       console.log('Starting image upload process...');
       
+      // The same photo submitted again for this exercise reuses the earlier upload and recognition
+      const hash = await hashUri(uri);
+      const cached = await findUploadByHash(userId, 'answer', hash, exerciseId);
+      if (cached?.kind === 'answer' && cached.exerciseId === exerciseId && cached.downloadUrl && cached.mmd && await uploadStillExists(cached)) {
+        console.log('Reusing recognized answer for identical image');
+        await recognizeAnswer(cached.downloadUrl, hash, {
+          mmd: cached.mmd,
+          confidence: cached.confidence,
+          lines: cached.lines,
+        });
+        return cached.downloadUrl;
+      }
+
       const response = await fetch(uri);
       const blob = await response.blob();
       validateFile(blob);
+      await checkQuota(userId, role, blob.size);
 
       const filename = `answers/${userId}/${exerciseId}/${subExerciseId}_${Date.now()}.jpg`;
       const storageRef = ref(storage, filename);
@@ -86,21 +191,8 @@ export function useImageUpload(
       const downloadURL = await getDownloadURL(storageRef);
       console.log('Image uploaded successfully, URL:', downloadURL);
 
-      // Process the answer with Mathpix
-      if (solution) {
-        console.log('Processing image with Mathpix...');
-        const mathpixResult = await processWithMathpix(downloadURL, userId, filename);
-        console.log('Mathpix processing result:', mathpixResult);
-
-        if (mathpixResult.mmd) {
-          console.log('Validating answer...');
-          const validationResult = await validateAnswer(mathpixResult.mmd, question, solution, userId);
-          setValidation(validationResult);
-          console.log('Validation result:', validationResult);
-        } else {
-          console.warn('No MMD content received from Mathpix');
-        }
-      }
+      // Recognize the answer before validating it
+      await recognizeAnswer(downloadURL, hash, null);
 
       return downloadURL;
     } catch (error) {
@@ -119,6 +211,7 @@ export function useImageUpload(
       setUploading(true);
       setUploadError(null);
       setValidation(null);
+      setPendingReview(null);
 
       if (Platform.OS === 'web') {
         if (fileInputRef.current) {
@@ -136,8 +229,7 @@ export function useImageUpload(
       });
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        const downloadURL = await uploadImage(result.assets[0].uri);
-        setAnswerImage(downloadURL);
+        setPendingImageUri(result.assets[0].uri);
       }
     } catch (error: any) {
       const errorMessage = error.message || 'Failed to upload image';
@@ -154,35 +246,15 @@ export function useImageUpload(
       setUploading(true);
       setUploadError(null);
       setValidation(null);
+      setPendingReview(null);
 
       const file = event.target.files[0];
-      validateFile(file);
-      
-      const filename = `answers/${userId}/${exerciseId}/${subExerciseId}_${Date.now()}.jpg`;
-      const storageRef = ref(storage, filename);
-
-      console.log('Uploading web file to Firebase Storage...');
-      await uploadBytes(storageRef, file);
-      const downloadURL = await getDownloadURL(storageRef);
-      console.log('File uploaded successfully, URL:', downloadURL);
-      
-      // Process the answer with Mathpix
-      if (solution) {
-        console.log('Processing file with Mathpix...');
-        const mathpixResult = await processWithMathpix(downloadURL, userId, filename);
-        console.log('Mathpix processing result:', mathpixResult);
-
-        if (mathpixResult.mmd) {
-          console.log('Validating answer...');
-          const validationResult = await validateAnswer(mathpixResult.mmd, question, solution, userId);
-          setValidation(validationResult);
-          console.log('Validation result:', validationResult);
-        } else {
-          console.warn('No MMD content received from Mathpix');
-        }
+      if (!file.type.startsWith('image/')) {
+        throw new Error(`Invalid file type: ${file.type}. Please select an image file.`);
       }
 
-      setAnswerImage(downloadURL);
+      // Large photos are fine here, they are downsized before upload
+      setPendingImageUri(URL.createObjectURL(file));
     } catch (error: any) {
       const errorMessage = error.message || 'Failed to upload image';
       showError(errorMessage);
@@ -194,11 +266,37 @@ export function useImageUpload(
     }
   };
 
+  const confirmPreprocessedImage = async (image: PreprocessedImage) => {
+    setPendingImageUri(null);
+
+    try {
+      setUploading(true);
+      const downloadURL = await uploadImage(image.uri);
+      setAnswerImage(downloadURL);
+    } catch (error: any) {
+      const errorMessage = error.message || 'Failed to upload image';
+      showError(errorMessage);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const cancelPreprocessing = () => {
+    setPendingImageUri(null);
+  };
+
   return {
     uploading,
     uploadError,
     answerImage,
     validation,
+    pendingReview,
+    confidenceThreshold,
+    pendingImageUri,
+    confirmPreprocessedImage,
+    cancelPreprocessing,
+    acceptReview,
+    rejectReview,
     fileInputRef,
     handleImagePick,
     handleFileChange,
@@ -0,0 +1,125 @@
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onObjectDeleted, onObjectFinalized } from 'firebase-functions/v2/storage';
+
+initializeApp();
+const db = getFirestore();
+
+type UsageCategory = 'documents' | 'answers';
+
+interface StorageUsage {
+  documents: number;
+  answers: number;
+  updatedAt: string;
+}
+
+interface FileEntry {
+  path: string;
+  category: UsageCategory;
+  size: number;
+  generation: string;
+}
+
+// The storage folders a user's files live in, by category
+const USAGE_FOLDERS: [string, UsageCategory][] = [
+  ['uploads', 'documents'],
+  ['users', 'documents'],
+  ['answers', 'answers'],
+];
+
+// The user and category a stored file counts towards, from paths like answers/{uid}/...
+function usageOf(path: string): { userId: string; category: UsageCategory } | null {
+  const [folder, userId, ...rest] = path.split('/');
+  const match = USAGE_FOLDERS.find(([prefix]) => prefix === folder);
+  return match && userId && rest.length > 0 ? { userId, category: match[1] } : null;
+}
+
+// The ledger the storage rules check uploads against; clients can only read it
+const usageRef = (userId: string) => db.doc(`users/${userId}/usage/storage`);
+
+// One entry per stored file, so overwritten and deleted files are counted exactly once
+const fileRef = (userId: string, path: string) =>
+  db.doc(`users/${userId}/usageFiles/${encodeURIComponent(path)}`);
+
+// Builds the ledger from what is actually stored
+async function rebuildUsage(userId: string): Promise<StorageUsage> {
+  const bucket = getStorage().bucket();
+  const usage: StorageUsage = { documents: 0, answers: 0, updatedAt: new Date().toISOString() };
+  const entries: FileEntry[] = [];
+
+  for (const [folder, category] of USAGE_FOLDERS) {
+    const [files] = await bucket.getFiles({ prefix: `${folder}/${userId}/` });
+    for (const file of files) {
+      const size = Number(file.metadata.size ?? 0);
+      usage[category] += size;
+      entries.push({ path: file.name, category, size, generation: String(file.metadata.generation) });
+    }
+  }
+
+  const writer = db.bulkWriter();
+  const paths = new Set(entries.map(entry => fileRef(userId, entry.path).path));
+  const stale = await db.collection(`users/${userId}/usageFiles`).listDocuments();
+  stale.filter(ref => !paths.has(ref.path)).forEach(ref => writer.delete(ref));
+  entries.forEach(entry => writer.set(fileRef(userId, entry.path), entry));
+  writer.set(usageRef(userId), usage);
+  await writer.close();
+
+  console.log('Rebuilt storage usage:', userId, usage);
+  return usage;
+}
+
+/**
+ * Counts a stored file. Overwriting a file also reports the old generation as
+ * deleted, in no particular order, so entries keep the generation they count.
+ */
+export const countStoredFile = onObjectFinalized(async event => {
+  const { name, size, generation } = event.data;
+  const owner = usageOf(name);
+  if (!owner) return;
+
+  // Users who stored files before the ledger existed get it built on their next upload
+  if (!(await usageRef(owner.userId).get()).exists) {
+    await rebuildUsage(owner.userId);
+    return;
+  }
+
+  await db.runTransaction(async transaction => {
+    const entry = await transaction.get(fileRef(owner.userId, name));
+    const previous = entry.exists ? (entry.data() as FileEntry).size : 0;
+    const file: FileEntry = { path: name, category: owner.category, size: Number(size), generation: String(generation) };
+
+    transaction.set(fileRef(owner.userId, name), file);
+    transaction.set(usageRef(owner.userId), {
+      [owner.category]: FieldValue.increment(file.size - previous),
+      updatedAt: new Date().toISOString(),
+    }, { merge: true });
+  });
+});
+
+export const uncountDeletedFile = onObjectDeleted(async event => {
+  const { name, generation } = event.data;
+  const owner = usageOf(name);
+  if (!owner) return;
+
+  await db.runTransaction(async transaction => {
+    const entry = await transaction.get(fileRef(owner.userId, name));
+    const file = entry.data() as FileEntry | undefined;
+    // Already counted out, or replaced by a newer generation
+    if (!file || file.generation !== String(generation)) return;
+
+    transaction.delete(fileRef(owner.userId, name));
+    transaction.set(usageRef(owner.userId), {
+      [file.category]: FieldValue.increment(-file.size),
+      updatedAt: new Date().toISOString(),
+    }, { merge: true });
+  });
+});
+
+export const recalculateUsage = onCall(async request => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to recalculate storage usage');
+  }
+  return rebuildUsage(request.auth.uid);
+});
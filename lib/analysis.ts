@@ -0,0 +1,209 @@
+import { PageLayout, findSource } from './layout';
+import { LlmMessage, LlmResult, LlmUsage, addUsage, completeJson } from './llm';
+import {
+  AnalysisValidationError,
+  ExerciseAnalysis,
+  SchemaIssue,
+  formatIssues,
+  validateDocumentAnalysis,
+} from './exerciseSchema';
+
+const ANALYSIS_PROMPT = `Extract ALL exercises from this content into structured exercise sets and return as JSON. Group the exercises into one set per topic: a document covering several topics becomes several sets, a document on a single topic one set. The content is already in mmd format a mathpix format that is related to latex, use the same formatting in your answer.
+
+CRITICAL VALIDATION STEPS:
+1. First, count the total number of exercises and sub-parts in the document
+2. Create a checklist of all exercises and their components
+3. Ensure EVERY exercise and sub-part is included in your response
+4. Double-check that no exercises are missing
+5. Verify that exercise numbering is consistent
+6. Confirm all related parts are properly linked
+
+Format your response EXACTLY as follows:
+
+{
+  "exerciseSets": [
+    {
+      "title": "Topic of this set",
+      "description": "Brief overview of the exercises in this set",
+      "difficulty": "beginner|intermediate|advanced",
+      "subject": "Mathematics|Physics|Chemistry",
+      "totalExercises": 0, // Total number of exercises in this set, as a number
+      "exerciseChecklist": [
+        "List of all exercise numbers/identifiers in this set"
+      ],
+      "context": {
+        "id": "ctx-1",
+        "content": "Complete context text that applies to all related sub-parts of this set"
+      },
+      "subExercises": [
+        {
+          "id": "1",
+          "question": "Complete question text EXACTLY as in the source,
+          "image": Copy the url given to you if there is an image or graph given in the document, they always come as links. Try to place the image where needed. 
+          "correctAnswer": "Expected answer",
+          "order": 1,
+          "isSubPart": false,
+          "contextId": null,
+          "relatedParts": null,
+          "originalNumber": "Original exercise number/identifier from source"
+        }
+      ],
+      "validationResults": {
+        "totalExercisesFound": 0, // Number of exercises extracted into this set, as a number
+        "allExercisesExtracted": true,
+        "missingExercises": [],
+        "validationChecks": [
+          "List of validation steps performed"
+        ]
+      }
+    }
+  ]
+}
+
+CRITICAL RULES:
+1. Keep ALL content EXACTLY as in the source:
+   - Preserve ALL links in the text as given, we need these links to fetch pictures related to this excercise
+   -If an image or graphic is given at e.g. excercise 4, copy the image link to all excercises related to excercise 4. 
+   - Keep ALL math expressions unchanged use also the mmd format. Also make sure you keep spaces within functions excactly as given. Don´t remove spaces or add them.
+   - Do not modify ANY paths or filenames
+2. For multi-part questions:
+   - Set isSubPart: true
+   - Create a shared context
+   - Link related parts
+3. Never modify:
+   - Image links 
+   - Math expressions
+   - Original text
+4. Validation requirements:
+   - Count total exercises at the start
+   - Create checklist of all exercise numbers
+   - Cross-reference extracted exercises against checklist
+   - Verify no exercises are missing
+   - Include validation results in response
+5. Exercise numbering:
+   - Preserve original exercise numbers/identifiers
+   - Maintain hierarchical structure
+   - Keep sub-part labeling (a, b, c, etc.)
+6. Completeness check:
+   - Review document multiple times
+   - Verify all exercises are captured
+   - Double-check for missed content
+   - Ensure no partial extractions
+7. Exercise sets:
+   - Give each set its own title, description, difficulty, subject and context
+   - Put every exercise into exactly one set, keeping the document order
+   - Ids, context ids and related parts refer to sub-exercises of the same set`;
+
+// Invalid output is sent back with the validation errors this many times
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Links every extracted question to the region of the original page it came from
+function attachSources(analysis: ExerciseAnalysis, layout: PageLayout[]): ExerciseAnalysis {
+  return {
+    ...analysis,
+    subExercises: analysis.subExercises.map(subExercise => {
+      const source = findSource(subExercise.question, layout);
+      return source ? { ...subExercise, source } : subExercise;
+    }),
+  };
+}
+
+function parseResponse(text: string | null | undefined): { raw?: unknown; issues: SchemaIssue[] } {
+  if (!text) {
+    return { issues: [{ path: '', message: 'the response was empty' }] };
+  }
+  try {
+    return { raw: JSON.parse(text), issues: [] };
+  } catch (error) {
+    return { issues: [{ path: '', message: `not valid JSON (${(error as Error).message})` }] };
+  }
+}
+
+// Long documents are analyzed in parts, which may start or end inside an exercise
+const partNote = (part: { number: number; total: number }) =>
+  `This is part ${part.number} of ${part.total} of a longer document. The beginning may repeat the end of ` +
+  'the previous part. Extract every exercise whose question is in this part, skip exercises that are ' +
+  'cut off before their question starts, and keep the original exercise numbers. Name each set after its ' +
+  'topic only, so sets continuing from the previous part get the same title.\n\n';
+
+// Follow-up extraction of exercises the first pass missed
+const onlyNote = (numbers: string[]) =>
+  `Extract ONLY these exercises, which were missed before: ${numbers.join(', ')}. ` +
+  'Return them in the same format with their original numbers; leave out every other exercise.\n\n';
+
+export interface AnalyzeOptions {
+  part?: { number: number; total: number };
+  only?: string[];
+}
+
+const repairPrompt = (issues: SchemaIssue[]) =>
+  `Your JSON does not match the required format:\n${formatIssues(issues)}\n\n` +
+  'Return the complete corrected JSON in the same format. Keep all exercises and their text unchanged.';
+
+/**
+ * Extracts the exercise sets and validates them against the Exercise schema.
+ * Recoverable problems are fixed in place; otherwise the model is asked to
+ * correct its output, and an AnalysisValidationError is thrown when it can't.
+ */
+export async function analyzeContent(
+  content: string,
+  layout?: PageLayout[] | null,
+  options: AnalyzeOptions = {}
+): Promise<LlmResult<ExerciseAnalysis[]>> {
+  const { part, only } = options;
+  try {
+    const messages: LlmMessage[] = [
+      {
+        role: "user",
+        content: `You are a precise mathematical exercise extractor. Your primary goal is to ensure ALL exercises are extracted completely and accurately. Double-check your work multiple times.
+
+Key responsibilities:
+1. Extract every single exercise and sub-part
+2. Maintain exact original formatting and language
+3. Verify completeness through multiple validation steps
+4. Report any potential missing content
+5. Preserve all mathematical expressions exactly as written`
+      },
+      {
+        role: "user",
+        content: `${ANALYSIS_PROMPT}\n\n${part ? partNote(part) : ''}${only?.length ? onlyNote(only) : ''}Content to analyze and return as JSON:\n${content}`
+      }
+    ];
+
+    const usages: LlmUsage[] = [];
+    for (let attempt = 0; ; attempt++) {
+      const { data: text, usage, model } = await completeJson('analyze', messages);
+      usages.push(usage);
+      const parsed = parseResponse(text);
+      const result = parsed.issues.length === 0 ? validateDocumentAnalysis(parsed.raw) : null;
+      const issues = result ? result.errors : parsed.issues;
+
+      if (result?.value) {
+        if (result.coerced.length > 0) {
+          console.log('Repaired analysis fields:', formatIssues(result.coerced));
+        }
+        return {
+          data: layout ? result.value.map(analysis => attachSources(analysis, layout)) : result.value,
+          usage: addUsage(...usages),
+          model,
+        };
+      }
+
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new AnalysisValidationError(
+          `The extracted exercises were still invalid after ${attempt + 1} attempts:\n${formatIssues(issues)}`,
+          issues
+        );
+      }
+
+      console.warn('Invalid analysis, asking for a correction:', formatIssues(issues));
+      messages.push(
+        { role: "assistant", content: text ?? '' },
+        { role: "user", content: repairPrompt(issues) }
+      );
+    }
+  } catch (error) {
+    console.error('Analysis error:', error);
+    throw error;
+  }
+}
\ No newline at end of file
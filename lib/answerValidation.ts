@@ -1,10 +1,4 @@
-import { processWithMathpix } from './mathpix';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+import { LlmResult, completeJson } from './llm';
 
 interface ValidationResult {
   isCorrect: boolean;
@@ -41,20 +35,16 @@ Format your response EXACTLY as follows:
 }`;
 
 export async function validateAnswer(
-  imageUrl: string,
+  answerMmd: string,
   exerciseQuestion: string,
-  correctSolution: string,
-  userId: string
-): Promise<ValidationResult> {
+  correctSolution: string
+): Promise<LlmResult<ValidationResult>> {
   try {
-    // First, process the image with Mathpix to get the mathematical content
-    const mathpixResult = await processWithMathpix(imageUrl, userId, `answer_${Date.now()}.jpg`);
-    
-    if (!mathpixResult.mmd) {
+    if (!answerMmd.trim()) {
       throw new Error('Failed to extract mathematical content from the image');
     }
 
-    // Prepare the context for OpenAI
+    // Prepare the context for the model
     const context = `
 Exercise Question:
 ${exerciseQuestion}
@@ -63,33 +53,28 @@ Correct Solution:
 ${correctSolution}
 
 Student's Answer (extracted from image):
-${mathpixResult.mmd}
+${answerMmd}
     `.trim();
 
-    // Validate the answer using OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are a precise mathematics tutor evaluating student answers. Focus on understanding and mathematical correctness, not just exact matches. Provide constructive feedback and specific suggestions for improvement."
-        },
-        {
-          role: "user",
-          content: `${VALIDATION_PROMPT}\n\nContext to evaluate:\n${context}`
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
+    const { data: text, usage, model } = await completeJson('validate', [
+      {
+        role: "system",
+        content: "You are a precise mathematics tutor evaluating student answers. Focus on understanding and mathematical correctness, not just exact matches. Provide constructive feedback and specific suggestions for improvement."
+      },
+      {
+        role: "user",
+        content: `${VALIDATION_PROMPT}\n\nContext to evaluate:\n${context}`
+      }
+    ]);
 
-    if (!response.choices[0]?.message?.content) {
+    if (!text) {
       throw new Error('No validation response generated');
     }
 
-    const result = JSON.parse(response.choices[0].message.content);
+    const result = JSON.parse(text);
     console.log('Validation result:', result);
 
-    return result as ValidationResult;
+    return { data: result as ValidationResult, usage, model };
   } catch (error) {
     console.error('Error validating answer:', error);
     throw error;
@@ -0,0 +1,325 @@
+import { PageLayout } from './layout';
+import { analyzeContent } from './analysis';
+import { LlmResult, addUsage } from './llm';
+import { ExerciseAnalysis } from './exerciseSchema';
+
+export interface AnalysisChunk {
+  index: number;
+  text: string;
+  // Characters at the start repeated from the previous chunk
+  overlap: number;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+export type ChunkState = 'queued' | 'analyzing' | 'done' | 'failed';
+
+export interface ChunkProgress {
+  index: number;
+  state: ChunkState;
+  exercises?: number;
+}
+
+// Well below the model's context, so long answers aren't cut off either
+const MAX_CHUNK_CHARS = 12000;
+const OVERLAP_CHARS = 1500;
+const CHUNK_CONCURRENCY = 2;
+
+// Lines that start a new section or exercise, where a chunk may end
+const BOUNDARY_PATTERNS = [
+  /^#{1,6}\s/,
+  /^\\(sub)*section\*?\{/,
+  /^<!-- page \d+ -->$/,
+  /^(\*\*)?(Aufgabe|Übung|Exercise|Problem|Task|Question)\s*\d+/i,
+];
+
+const isBoundary = (line: string) => BOUNDARY_PATTERNS.some(pattern => pattern.test(line.trim()));
+
+// Splits text into blocks that start at a boundary line
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (isBoundary(line) && current.some(existing => existing.trim())) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length > 0) blocks.push(current.join('\n'));
+  return blocks;
+}
+
+// Blocks without boundaries inside are cut at paragraphs, then lines
+function limitBlock(block: string, maxChars: number): string[] {
+  if (block.length <= maxChars) return [block];
+
+  const separator = block.includes('\n\n') ? '\n\n' : '\n';
+  const pieces: string[] = [];
+  let current = '';
+  for (const part of block.split(separator)) {
+    if (current && current.length + separator.length + part.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${part}` : part;
+  }
+  if (current) pieces.push(current);
+
+  return pieces.flatMap(piece =>
+    piece.length <= maxChars || separator === '\n'
+      ? [piece]
+      : limitBlock(piece, maxChars)
+  );
+}
+
+/**
+ * Splits MMD into chunks at section and exercise boundaries. Each chunk after
+ * the first repeats the last blocks of the previous one, so an exercise cut at
+ * a chunk border is complete in at least one of them.
+ */
+export function splitIntoChunks(text: string, options: ChunkOptions = {}): AnalysisChunk[] {
+  const maxChars = options.maxChars ?? MAX_CHUNK_CHARS;
+  const overlapChars = options.overlapChars ?? OVERLAP_CHARS;
+  const blocks = splitBlocks(text).flatMap(block => limitBlock(block, maxChars));
+
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const block of blocks) {
+    if (current.length > 0 && size + block.length > maxChars) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(block);
+    size += block.length + 1;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, index) => {
+    const previous = groups[index - 1] ?? [];
+    const overlap: string[] = [];
+    let overlapSize = 0;
+    for (let i = previous.length - 1; i >= 0; i--) {
+      if (overlapSize + previous[i].length > overlapChars) break;
+      overlap.unshift(previous[i]);
+      overlapSize += previous[i].length + 1;
+    }
+
+    const overlapText = overlap.join('\n');
+    const body = group.join('\n');
+    return {
+      index,
+      text: overlapText ? `${overlapText}\n${body}` : body,
+      overlap: overlapText ? overlapText.length + 1 : 0,
+    };
+  });
+}
+
+// "Aufgabe 2 b)", "2b" and "2 (b)." all become "2b"
+export function exerciseKey(number: string): string {
+  return number
+    .toLowerCase()
+    .replace(/^(aufgabe|übung|exercise|problem|task|question|nr\.?)\s*/, '')
+    .replace(/[\s().:]/g, '');
+}
+
+type SubExercise = ExerciseAnalysis['subExercises'][number];
+
+function mostCommon<T>(values: T[]): T {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+const unique = (values: string[], key: (value: string) => string = value => value) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const id = key(value);
+    if (!id || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+const normalizedQuestion = (question: string) => question.replace(/\s+/g, ' ').trim();
+
+// The same exercise from the overlap, possibly cut off in one of the chunks
+const isSameExercise = (a: SubExercise, b: SubExercise) => {
+  if (exerciseKey(a.originalNumber) !== exerciseKey(b.originalNumber)) return false;
+  const [first, second] = [normalizedQuestion(a.question), normalizedQuestion(b.question)];
+  return first.includes(second) || second.includes(first);
+};
+
+/**
+ * Combines the analyses of consecutive chunks. Exercises seen twice because of
+ * the overlap, in any earlier chunk, are kept once with the more complete
+ * question; context ids are made unique per chunk so every sub-part keeps
+ * pointing at its own context.
+ */
+export function mergeAnalyses(partials: ExerciseAnalysis[]): ExerciseAnalysis {
+  if (partials.length === 1) return partials[0];
+
+  const contexts: { id: string; content: string }[] = [];
+  const contextIds = new Map<string, string>();
+  const merged: { subExercise: SubExercise; chunk: number; ids: string[] }[] = [];
+
+  partials.forEach((partial, chunk) => {
+    const renamed = (id: string) => `ctx-${chunk + 1}-${id}`;
+    const partialContexts = [partial.context, ...(partial.contexts ?? [])].filter(context => context?.content);
+    for (const context of partialContexts) {
+      // The same context repeated in the overlap is stored once
+      const existing = contexts.find(item => item.content === context.content);
+      contextIds.set(renamed(context.id), existing?.id ?? renamed(context.id));
+      if (!existing) contexts.push({ id: renamed(context.id), content: context.content });
+    }
+
+    for (const subExercise of partial.subExercises) {
+      const contextId = subExercise.contextId
+        ? contextIds.get(renamed(subExercise.contextId)) ?? null
+        : null;
+      const id = `${chunk}:${subExercise.id}`;
+      const relatedParts = subExercise.relatedParts?.map(part => `${chunk}:${part}`) ?? null;
+      const entry = { subExercise: { ...subExercise, contextId, relatedParts }, chunk, ids: [id] };
+
+      const duplicate = merged.find(item => item.chunk !== chunk && isSameExercise(item.subExercise, subExercise));
+      if (!duplicate) {
+        merged.push(entry);
+      } else {
+        duplicate.ids.push(id);
+        if (subExercise.question.length > duplicate.subExercise.question.length) {
+          duplicate.subExercise = entry.subExercise;
+          duplicate.chunk = chunk;
+        }
+      }
+    }
+  });
+
+  // Ids are renumbered, so related parts are mapped from their chunk's ids
+  const newIds = new Map(merged.flatMap((item, index) => item.ids.map(id => [id, String(index + 1)] as const)));
+  const subExercises = merged.map(({ subExercise }, index) => ({
+    ...subExercise,
+    id: String(index + 1),
+    order: index + 1,
+    relatedParts: subExercise.relatedParts
+      ? unique(subExercise.relatedParts.map(part => newIds.get(part) ?? '')).filter(part => part !== String(index + 1))
+      : null,
+  }));
+
+  const exerciseChecklist = unique(partials.flatMap(partial => partial.exerciseChecklist), exerciseKey);
+  const extracted = new Set(subExercises.map(item => exerciseKey(item.originalNumber)));
+  const missingExercises = exerciseChecklist.filter(number => !extracted.has(exerciseKey(number)));
+
+  return {
+    title: partials[0].title,
+    description: partials[0].description,
+    difficulty: mostCommon(partials.map(partial => partial.difficulty)),
+    subject: mostCommon(partials.map(partial => partial.subject)),
+    totalExercises: Math.max(exerciseChecklist.length, subExercises.length),
+    exerciseChecklist,
+    context: contexts[0] ?? partials[0].context,
+    contexts: contexts.length > 1 ? contexts : undefined,
+    subExercises,
+    validationResults: {
+      totalExercisesFound: subExercises.length,
+      allExercisesExtracted: missingExercises.length === 0,
+      missingExercises,
+      validationChecks: unique(partials.flatMap(partial => partial.validationResults.validationChecks)),
+    },
+  };
+}
+
+// "Quadratic Equations (continued)" and "quadratic equations" name the same set
+const setKey = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/\((continued|cont\.?|fortsetzung)\)/g, '')
+    .replace(/[\s.:]+/g, ' ')
+    .trim();
+
+/**
+ * Combines the exercise sets of all chunks. Sets with the same title are
+ * merged; an exercise that ended up in different sets because of the overlap
+ * is kept in the first one. Numbers alone don't decide this, as they often
+ * start over in each set.
+ */
+export function mergeDocumentAnalyses(partials: ExerciseAnalysis[][]): ExerciseAnalysis[] {
+  if (partials.length === 1) return partials[0];
+
+  const groups = new Map<string, ExerciseAnalysis[]>();
+  partials.flat().forEach(analysis => {
+    const key = setKey(analysis.title);
+    groups.set(key, [...(groups.get(key) ?? []), analysis]);
+  });
+
+  const sets: ExerciseAnalysis[] = [];
+  for (const group of groups.values()) {
+    const merged = mergeAnalyses(group);
+    const subExercises = merged.subExercises.filter(subExercise =>
+      !sets.some(set => set.subExercises.some(other => isSameExercise(subExercise, other)))
+    );
+    if (subExercises.length === 0) continue;
+
+    sets.push(subExercises.length === merged.subExercises.length ? merged : {
+      ...merged,
+      subExercises: subExercises.map((subExercise, index) => ({ ...subExercise, order: index + 1 })),
+      totalExercises: Math.max(merged.exerciseChecklist.length, subExercises.length),
+      validationResults: { ...merged.validationResults, totalExercisesFound: subExercises.length },
+    });
+  }
+  return sets;
+}
+
+/**
+ * Analyzes a document chunk by chunk, at most CHUNK_CONCURRENCY at a time, and
+ * merges the exercise sets. Short documents are sent in one piece as before.
+ */
+export async function analyzeDocument(
+  content: string,
+  layout?: PageLayout[] | null,
+  onProgress?: (progress: ChunkProgress[]) => void
+): Promise<LlmResult<ExerciseAnalysis[]>> {
+  const chunks = splitIntoChunks(content);
+  const progress: ChunkProgress[] = chunks.map(chunk => ({ index: chunk.index, state: 'queued' }));
+  const report = (index: number, update: Partial<ChunkProgress>) => {
+    progress[index] = { ...progress[index], ...update };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+  if (chunks.length > 1) {
+    console.log('Analyzing document in chunks:', chunks.length);
+  }
+
+  const results: LlmResult<ExerciseAnalysis[]>[] = new Array(chunks.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < chunks.length && !failed) {
+      const chunk = chunks[next++];
+      report(chunk.index, { state: 'analyzing' });
+      try {
+        const part = chunks.length > 1 ? { number: chunk.index + 1, total: chunks.length } : undefined;
+        results[chunk.index] = await analyzeContent(chunk.text, layout, { part });
+        const exercises = results[chunk.index].data.reduce((count, set) => count + set.subExercises.length, 0);
+        report(chunk.index, { state: 'done', exercises });
+      } catch (error) {
+        failed = true;
+        report(chunk.index, { state: 'failed' });
+        console.error(`Part ${chunk.index + 1} of ${chunks.length} could not be analyzed:`, error);
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+  return {
+    data: mergeDocumentAnalyses(results.map(result => result.data)),
+    usage: addUsage(...results.map(result => result.usage)),
+    model: results[0].model,
+  };
+}
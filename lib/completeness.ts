@@ -0,0 +1,209 @@
+import { PageLayout } from './layout';
+import { analyzeContent } from './analysis';
+import { AnalysisValidationError, ExerciseAnalysis } from './exerciseSchema';
+import { LlmResult, LlmUsage, addUsage } from './llm';
+import { exerciseKey, splitIntoChunks } from './chunkedAnalysis';
+
+export interface CompletenessReport {
+  // Exercise numbers from the model's checklist and from scanning the text, in document order
+  expected: string[];
+  extracted: string[];
+  missing: string[];
+  complete: boolean;
+}
+
+// "Aufgabe 3", "Exercise 2b", "**Problem 4.1**"
+const HEADING_PATTERN = /^(?:#{1,6}\s*)?(?:\*\*)?(?:Aufgabe|Übung|Exercise|Problem|Task)\s+(\d+(?:\.\d+)*[a-z]?)\b/i;
+// "2b)" or "2 b)" at the start of a line
+const NUMBERED_PART_PATTERN = /^(?:\*\*)?(\d+)\s?([a-z])\)/;
+// "a)" or "(a)" below an exercise heading
+const PART_PATTERN = /^(?:\*\*)?\(?([a-z])\)/;
+
+/**
+ * Scans MMD for exercise numbers. Lettered parts are numbered after the
+ * exercise they follow, so "Aufgabe 2" followed by "a)" yields "2" and "2a".
+ */
+export function findExerciseNumbers(content: string): string[] {
+  const numbers: string[] = [];
+  let current: string | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    const heading = line.match(HEADING_PATTERN);
+    const numberedPart = line.match(NUMBERED_PART_PATTERN);
+    const part = line.match(PART_PATTERN);
+
+    if (heading) {
+      current = heading[1];
+      numbers.push(current);
+    } else if (numberedPart) {
+      current = numberedPart[1];
+      numbers.push(`${numberedPart[1]}${numberedPart[2]}`);
+    } else if (part && current) {
+      numbers.push(`${current.replace(/[a-z]$/i, '')}${part[1]}`);
+    }
+  }
+
+  const seen = new Set<string>();
+  return numbers.filter(number => {
+    const key = exerciseKey(number);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// "2a" is a part of "2", but "12" is not
+const isPartOf = (item: string, key: string) =>
+  item !== key && item.startsWith(key) && /^[a-z]/.test(item.slice(key.length));
+
+// An exercise counts as extracted when it, one of its parts or the whole exercise it belongs to was
+function isCovered(key: string, extracted: Set<string>): boolean {
+  if (extracted.has(key)) return true;
+  if ([...extracted].some(item => isPartOf(item, key))) return true;
+
+  const parent = key.replace(/[a-z]+$/, '');
+  return parent !== key && extracted.has(parent);
+}
+
+// Checks the exercise sets of a document together, since the text isn't split by set
+export function checkCompleteness(analyses: ExerciseAnalysis[], content: string): CompletenessReport {
+  const extracted = analyses.flatMap(analysis => analysis.subExercises.map(subExercise => subExercise.originalNumber));
+  const extractedKeys = new Set(extracted.map(exerciseKey));
+
+  const expected: string[] = [];
+  const expectedKeys = new Set<string>();
+  for (const number of [...findExerciseNumbers(content), ...analyses.flatMap(analysis => analysis.exerciseChecklist)]) {
+    const key = exerciseKey(number);
+    if (!key || expectedKeys.has(key)) continue;
+    expectedKeys.add(key);
+    expected.push(number);
+  }
+
+  // A heading like "Aufgabe 2" whose parts are listed separately isn't an exercise of its own
+  const missing = expected.filter(number => {
+    const key = exerciseKey(number);
+    const hasParts = [...expectedKeys].some(other => isPartOf(other, key));
+    return !hasParts && !isCovered(key, extractedKeys);
+  });
+
+  return { expected, extracted, missing, complete: missing.length === 0 };
+}
+
+/**
+ * Asks the model again for exercises the first pass missed. Only the parts of
+ * the document mentioning them are sent; when none does, all of it is.
+ */
+export async function extractMissingExercises(
+  content: string,
+  missing: string[],
+  layout?: PageLayout[] | null
+): Promise<LlmResult<ExerciseAnalysis['subExercises']>> {
+  const missingKeys = new Set(missing.map(exerciseKey));
+  const chunks = splitIntoChunks(content);
+  const mentioning = chunks.filter(chunk =>
+    findExerciseNumbers(chunk.text).some(number => isCovered(exerciseKey(number), missingKeys))
+  );
+
+  const found: ExerciseAnalysis['subExercises'] = [];
+  const usages: LlmUsage[] = [];
+  let model = '';
+  for (const chunk of mentioning.length > 0 ? mentioning : chunks) {
+    const wanted = missing.filter(number => !found.some(item => exerciseKey(item.originalNumber) === exerciseKey(number)));
+    if (wanted.length === 0) break;
+
+    try {
+      const result = await analyzeContent(chunk.text, layout, { only: wanted });
+      usages.push(result.usage);
+      model = result.model;
+      const subExercises = result.data.flatMap(analysis => analysis.subExercises);
+      found.push(...subExercises.filter(item => isCovered(exerciseKey(item.originalNumber), missingKeys)));
+    } catch (error) {
+      // Nothing usable for this part; the exercises stay in the report as missing
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      console.warn('Follow-up extraction found nothing usable:', error.message);
+    }
+  }
+
+  return { data: found, usage: addUsage(...usages), model };
+}
+
+type Position = (number: string) => number | undefined;
+
+// Adds exercises to a set in document order, with new ids after the existing ones
+function addToSet(analysis: ExerciseAnalysis, added: ExerciseAnalysis['subExercises'], positionOf: Position): ExerciseAnalysis {
+  if (added.length === 0) return analysis;
+
+  // Context ids are only meaningful within the response they came from
+  const combined = [
+    ...analysis.subExercises,
+    ...added.map(item => ({ ...item, contextId: null, relatedParts: null })),
+  ];
+  const ordered = combined
+    .map((item, index) => ({ item, index, position: positionOf(item.originalNumber) }))
+    .sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity) || a.index - b.index)
+    .map(({ item }) => item);
+
+  // So related parts keep pointing at the right sub-parts
+  let nextId = Math.max(0, ...analysis.subExercises.map(item => Number(item.id) || 0));
+  const subExercises = ordered.map((item, index) => ({
+    ...item,
+    id: analysis.subExercises.includes(item) ? item.id : String(++nextId),
+    order: index + 1,
+  }));
+  return { ...analysis, subExercises };
+}
+
+/**
+ * Adds exercises found by a follow-up extraction to the exercise sets. Each
+ * goes into the set of the exercise before it in the document, and the sets'
+ * validation results are updated.
+ */
+export function mergeMissingExercises(
+  analyses: ExerciseAnalysis[],
+  found: ExerciseAnalysis['subExercises'],
+  content: string
+): ExerciseAnalysis[] {
+  const existing = new Set(analyses.flatMap(analysis => analysis.subExercises.map(item => exerciseKey(item.originalNumber))));
+  const added = found.filter(item => !existing.has(exerciseKey(item.originalNumber)));
+
+  const position = new Map(findExerciseNumbers(content).map((number, index) => [exerciseKey(number), index]));
+  const positionOf: Position = number =>
+    position.get(exerciseKey(number)) ?? position.get(exerciseKey(number).replace(/[a-z]+$/, ''));
+
+  const setOf = (item: ExerciseAnalysis['subExercises'][number]) => {
+    const itemPosition = positionOf(item.originalNumber) ?? Infinity;
+    let best = 0;
+    let bestPosition = -Infinity;
+    analyses.forEach((analysis, index) => {
+      for (const subExercise of analysis.subExercises) {
+        const subPosition = positionOf(subExercise.originalNumber);
+        if (subPosition !== undefined && subPosition <= itemPosition && subPosition > bestPosition) {
+          best = index;
+          bestPosition = subPosition;
+        }
+      }
+    });
+    return best;
+  };
+
+  const merged = analyses.map((analysis, index) =>
+    addToSet(analysis, added.filter(item => setOf(item) === index), positionOf)
+  );
+  const report = checkCompleteness(merged, content);
+  return withReport(merged, report);
+}
+
+// Records the report in the sets' own validation results
+export function withReport(analyses: ExerciseAnalysis[], report: CompletenessReport): ExerciseAnalysis[] {
+  return analyses.map(analysis => ({
+    ...analysis,
+    totalExercises: Math.max(analysis.totalExercises, analysis.subExercises.length),
+    validationResults: {
+      ...analysis.validationResults,
+      totalExercisesFound: analysis.subExercises.length,
+      allExercisesExtracted: report.complete,
+      missingExercises: report.missing,
+    },
+  }));
+}
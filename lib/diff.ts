@@ -0,0 +1,114 @@
+export type DiffType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffType;
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+// One row of a side-by-side view; a changed line pairs the old and new text
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Beyond this many LCS cells the changed middle is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line diff based on the longest common subsequence. The common head and tail
+ * are cut off first, so typical edits only compare a few lines.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let head = 0;
+  while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < oldLines.length - head &&
+    tail < newLines.length - head &&
+    oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const oldMiddle = oldLines.slice(head, oldLines.length - tail);
+  const newMiddle = newLines.slice(head, newLines.length - tail);
+  const result: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  const same = (text: string) => result.push({ type: 'same', text, oldNumber: oldNumber++, newNumber: newNumber++ });
+  const removed = (text: string) => result.push({ type: 'removed', text, oldNumber: oldNumber++ });
+  const added = (text: string) => result.push({ type: 'added', text, newNumber: newNumber++ });
+
+  oldLines.slice(0, head).forEach(same);
+
+  const rows = oldMiddle.length;
+  const columns = newMiddle.length;
+  if ((rows + 1) * (columns + 1) > MAX_LCS_CELLS) {
+    oldMiddle.forEach(removed);
+    newMiddle.forEach(added);
+  } else {
+    // lengths[i][j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        same(oldMiddle[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        removed(oldMiddle[i++]);
+      } else {
+        added(newMiddle[j++]);
+      }
+    }
+    oldMiddle.slice(i).forEach(removed);
+    newMiddle.slice(j).forEach(added);
+  }
+
+  oldLines.slice(oldLines.length - tail).forEach(same);
+  return result;
+}
+
+// Pairs each run of removed lines with the added lines that follow it
+export function sideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+
+  return rows;
+}
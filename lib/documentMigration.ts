@@ -0,0 +1,121 @@
+import { deleteObject, getDownloadURL, ref } from 'firebase/storage';
+import { collection, deleteDoc, doc, getDoc, getDocs, setDoc } from 'firebase/firestore';
+import { db, storage } from './firebase';
+import {
+  DocumentRecord,
+  fetchDocumentRecords,
+  loadMmdFromPath,
+  mmdPath,
+  saveMmd,
+  updateDocumentRecord,
+} from './documents';
+import { PageLayout, layoutPath, saveLayout } from './layout';
+import { isOnline } from './sync';
+
+const migratedUsers = new Set<string>();
+
+// Before documents had generated ids, exercises were keyed by their title
+const legacyExerciseId = (record: DocumentRecord) =>
+  record.exerciseId ?? record.title.replace(/\.pdf$/, '');
+
+// Unfinished uploads have no MMD yet and are written under the new paths when they complete
+const needsMigration = (userId: string, record: DocumentRecord) =>
+  record.state === 'ready' && record.mmdPath !== mmdPath(userId, record.id);
+
+async function loadLegacyLayout(path: string): Promise<PageLayout[] | null> {
+  try {
+    const response = await fetch(await getDownloadURL(ref(storage, path)));
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.log('No layout found at:', path, error);
+    return null;
+  }
+}
+
+async function moveSubcollection(userId: string, fromId: string, toId: string, name: string): Promise<void> {
+  const snapshot = await getDocs(collection(db, 'users', userId, 'exercises', fromId, name));
+  for (const item of snapshot.docs) {
+    await setDoc(
+      doc(db, 'users', userId, 'exercises', toId, name, item.id),
+      { ...item.data(), exerciseId: toId }
+    );
+    await deleteDoc(item.ref);
+  }
+}
+
+// Moves the exercise analyzed from a document, with its solutions and attempts, under the document id
+async function moveExercise(userId: string, fromId: string, toId: string): Promise<boolean> {
+  const exerciseRef = doc(db, 'users', userId, 'exercises', fromId);
+  const exercise = await getDoc(exerciseRef);
+  if (!exercise.exists()) return false;
+
+  await setDoc(doc(db, 'users', userId, 'exercises', toId), { ...exercise.data(), id: toId });
+  await moveSubcollection(userId, fromId, toId, 'solutions');
+  await moveSubcollection(userId, fromId, toId, 'attempts');
+  await deleteDoc(exerciseRef);
+  return true;
+}
+
+async function deleteLegacyFile(userId: string, path: string): Promise<void> {
+  try {
+    await deleteObject(ref(storage, path));
+  } catch (error) {
+    console.warn('Could not delete legacy file:', path, error);
+  }
+}
+
+async function migrateRecord(userId: string, record: DocumentRecord): Promise<void> {
+  console.log('Migrating document to its generated id:', record.title, record.id);
+  const exerciseId = legacyExerciseId(record);
+
+  const content = await loadMmdFromPath(record.mmdPath);
+  await saveMmd(userId, record.id, content);
+
+  const oldLayoutPath = record.layoutPath ?? layoutPath(userId, record.title);
+  const layout = await loadLegacyLayout(oldLayoutPath);
+  const newLayoutPath = layout ? await saveLayout(userId, record.id, layout) : undefined;
+
+  const hasExercise = exerciseId !== record.id && await moveExercise(userId, exerciseId, record.id);
+
+  await updateDocumentRecord(userId, record.id, {
+    mmdPath: mmdPath(userId, record.id),
+    layoutPath: newLayoutPath,
+    exerciseId: hasExercise ? record.id : record.exerciseId,
+  });
+
+  // Old files are only removed once the record points at the new ones
+  await deleteLegacyFile(userId, record.mmdPath);
+  if (layout) {
+    await deleteLegacyFile(userId, oldLayoutPath);
+  }
+}
+
+/**
+ * Re-links documents created before generated ids to the new scheme: the MMD
+ * and layout are copied to id-based paths and the exercise (with solutions and
+ * attempts) is moved from its title key to the document id. Each document is
+ * migrated on its own, so an interrupted run continues where it stopped.
+ * Resolves to the number of migrated documents.
+ */
+export async function migrateDocumentIds(userId: string): Promise<number> {
+  if (migratedUsers.has(userId) || !(await isOnline())) return 0;
+
+  const records = await fetchDocumentRecords(userId);
+  const legacy = records.filter(record => needsMigration(userId, record));
+
+  let migrated = 0;
+  for (const record of legacy) {
+    try {
+      await migrateRecord(userId, record);
+      migrated++;
+    } catch (error) {
+      console.error('Error migrating document:', record.id, error);
+    }
+  }
+
+  if (migrated === legacy.length) {
+    migratedUsers.add(userId);
+  }
+  console.log('Migrated documents:', migrated);
+  return migrated;
+}
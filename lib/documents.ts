@@ -1,204 +1,318 @@
-import { storage } from './firebase';
-import { ref, listAll, getDownloadURL } from 'firebase/storage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { db, storage } from './firebase';
+import { ref, listAll, getDownloadURL, getMetadata, uploadBytes } from 'firebase/storage';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { splitPages } from './pages';
+import { Organization, normalizeTag } from './folders';
+import {
+  cacheContent,
+  getCachedContent,
+  getCachedItems,
+  mergeRemoteItems,
+  queueUpdate,
+} from './sync';
 
 export interface PDFDocument {
   id: string;
   title: string;
   content: string;
   timestamp: number;
+  // Original page numbers, when the content was stored per page
+  pages?: number[];
 }
 
-const DOCUMENTS_STORAGE_KEY = 'user_documents';
+// Strips the storage suffixes so "sheet.pdf.mmd" and "notes.md" display as "sheet" and "notes"
+export function titleFromFilename(filename: string): string {
+  return filename
+    .replace(/\.mmd$/, '')
+    .replace(/\.(pdf|tex|md|txt|docx|jpe?g|png)$/i, '');
+}
+
+export function getPageNumbers(content: string): number[] | undefined {
+  const pages = splitPages(content);
+  return pages.length > 0 ? pages.map(page => page.number) : undefined;
+}
+
+export type DocumentState = 'processing' | 'ready' | 'failed';
+
+// Metadata kept in Firestore so the document list doesn't need the MMD files
+export interface DocumentRecord {
+  id: string;
+  title: string;
+  sourceFilename: string;
+  sourceType: 'pdf' | 'image' | 'import' | 'scan' | 'legacy';
+  // Storage paths of the uploaded original, the MMD and the page layout
+  sourcePath?: string;
+  mmdPath: string;
+  layoutPath?: string;
+  pageCount?: number;
+  pages?: number[];
+  size?: number;
+  state: DocumentState;
+  // Set once analyzed; sets analyzed before documents had several are stored under the document id
+  exerciseId?: string;
+  // Set while the document is in the trash
+  deletedAt?: string;
+  folderId?: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Every document gets one generated id when it is queued. The id names its
+ * Firestore record, its storage folder, MMD and layout files, and the exercise
+ * (with its solutions) analyzed from it, so titles can change or repeat freely.
+ */
+export function newDocumentId(userId: string): string {
+  return doc(collection(db, 'users', userId, 'documents')).id;
+}
 
-export async function clearDocumentCache(): Promise<void> {
+export async function saveMmd(userId: string, documentId: string, content: string): Promise<void> {
   try {
-    await AsyncStorage.removeItem(DOCUMENTS_STORAGE_KEY);
-    console.log('Document cache cleared');
+    const path = mmdPath(userId, documentId);
+    const mmdBlob = new Blob([content], { type: 'text/markdown' });
+    await uploadBytes(ref(storage, path), mmdBlob);
   } catch (error) {
-    console.error('Error clearing document cache:', error);
+    console.error('Error saving MMD:', error);
+    throw error;
   }
 }
 
-export async function saveDocument(userId: string, document: PDFDocument): Promise<void> {
+export function mmdPath(userId: string, documentId: string): string {
+  return `users/${userId}/mmd/${documentId}.mmd`;
+}
+
+export async function loadMmd(userId: string, documentId: string): Promise<string> {
+  const record = await fetchDocumentRecord(userId, documentId);
+  if (!record) {
+    throw new Error(`Document not found: ${documentId}`);
+  }
+  return loadMmdFromPath(record.mmdPath);
+}
+
+export async function loadMmdFromPath(path: string): Promise<string> {
   try {
-    const existingDocs = await loadDocuments();
-    const updatedDocs = [document, ...existingDocs];
-    await AsyncStorage.setItem(DOCUMENTS_STORAGE_KEY, JSON.stringify(updatedDocs));
+    const downloadURL = await getDownloadURL(ref(storage, path));
+    const response = await fetch(downloadURL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch content: ${response.status} ${response.statusText}`);
+    }
+    return await response.text();
   } catch (error) {
-    console.error('Error saving document:', error);
+    console.error('Error loading MMD:', error);
     throw error;
   }
 }
 
-export async function loadDocuments(): Promise<PDFDocument[]> {
+// Firestore rejects undefined fields
+const withoutUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+// Re-running a job updates its record instead of listing the document twice
+export async function createDocumentRecord(
+  userId: string,
+  documentId: string,
+  record: Omit<DocumentRecord, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<void> {
   try {
-    const storedDocs = await AsyncStorage.getItem(DOCUMENTS_STORAGE_KEY);
-    return storedDocs ? JSON.parse(storedDocs) : [];
+    const documentRef = doc(db, 'users', userId, 'documents', documentId);
+    const existing = await getDoc(documentRef);
+    const now = new Date().toISOString();
+
+    if (existing.exists()) {
+      await updateDoc(documentRef, withoutUndefined({ ...record, updatedAt: now }));
+      return;
+    }
+
+    await setDoc(documentRef, withoutUndefined({
+      ...record,
+      id: documentId,
+      createdAt: now,
+      updatedAt: now,
+    }));
   } catch (error) {
-    console.error('Error loading documents:', error);
-    return [];
+    console.error('Error creating document record:', error);
+    throw error;
   }
 }
 
-async function fetchDocument(item: any, userId: string): Promise<PDFDocument | null> {
-  if (Platform.OS === 'web') {
-    // For web, only try the direct path
-    try {
-      const path = `users/${userId}/mmd/${item.name}`;
-      console.log('Web: Attempting to fetch from path:', path);
-      
-      const storageRef = ref(storage, path);
-      const downloadURL = await getDownloadURL(storageRef);
-      
-      const response = await fetch(downloadURL);
-      if (!response.ok) {
-        console.log(`Failed to fetch content: ${response.status} ${response.statusText}`);
-        return null;
-      }
+export async function fetchDocumentRecord(userId: string, documentId: string): Promise<DocumentRecord | null> {
+  try {
+    const snapshot = await getDoc(doc(db, 'users', userId, 'documents', documentId));
+    return snapshot.exists() ? ({ ...snapshot.data(), id: snapshot.id } as DocumentRecord) : null;
+  } catch (error) {
+    console.error('Error fetching document record:', error);
+    throw error;
+  }
+}
 
-      const content = await response.text();
-      if (!content) {
-        console.log('Empty content received');
-        return null;
-      }
+export async function updateDocumentRecord(
+  userId: string,
+  documentId: string,
+  changes: Partial<Omit<DocumentRecord, 'id' | 'createdAt'>>
+): Promise<void> {
+  try {
+    await updateDoc(
+      doc(db, 'users', userId, 'documents', documentId),
+      withoutUndefined({ ...changes, updatedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error('Error updating document record:', error);
+    throw error;
+  }
+}
 
-      // Clean up the filename for display
-      const title = item.name
-        .replace(/\.mmd$/, '')
-        .replace(/\.pdf\.mmd$/, '.pdf')
-        .replace(/\.pdf$/, '');
-
-      return {
-        id: item.name,
-        title,
-        content,
-        timestamp: Date.now(),
-      };
-    } catch (error: any) {
-      console.error('Error fetching document:', error);
-      return null;
-    }
-  } else {
-    // For native platforms, try multiple paths
-    const baseName = item.name
-      .replace(/\.mmd$/, '')
-      .replace(/\.pdf\.mmd$/, '.pdf')
-      .replace(/\.pdf$/, '');
-
-    const paths = [
-      `users/${userId}/mmd/${item.name}`,
-      `users/${userId}/mmd/${baseName}.mmd`,
-      `users/${userId}/mmd/${baseName}.pdf.mmd`,
-    ];
-
-    for (const path of paths) {
-      try {
-        console.log(`Native: Attempting to fetch from path: ${path}`);
-        const storageRef = ref(storage, path);
-        const downloadURL = await getDownloadURL(storageRef);
-        
-        const response = await fetch(downloadURL);
-        if (!response.ok) continue;
-
-        const content = await response.text();
-        if (!content) continue;
-
-        return {
-          id: item.name,
-          title: baseName,
-          content,
-          timestamp: Date.now(),
-        };
-      } catch (error) {
+// Derived from the storage path, so concurrent backfills write the same records
+async function legacyDocumentId(path: string): Promise<string> {
+  const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, path);
+  return `legacy-${hash.slice(0, 20)}`;
+}
+
+// Indexes MMD files uploaded before the documents collection existed
+async function backfillDocumentRecords(userId: string): Promise<DocumentRecord[]> {
+  console.log('Backfilling document index from storage...');
+  const filesList = await listAll(ref(storage, `users/${userId}/mmd`));
+
+  const records: DocumentRecord[] = [];
+  for (const item of filesList.items) {
+    try {
+      const documentRef = doc(db, 'users', userId, 'documents', await legacyDocumentId(item.fullPath));
+      const existing = await getDoc(documentRef);
+      if (existing.exists()) {
+        records.push({ ...existing.data(), id: existing.id } as DocumentRecord);
         continue;
       }
+
+      const metadata = await getMetadata(item);
+      const record: DocumentRecord = {
+        id: documentRef.id,
+        title: titleFromFilename(item.name),
+        sourceFilename: item.name,
+        sourceType: 'legacy',
+        mmdPath: item.fullPath,
+        size: metadata.size,
+        state: 'ready',
+        createdAt: metadata.timeCreated,
+        updatedAt: metadata.updated,
+      };
+      await setDoc(documentRef, record);
+      records.push(record);
+    } catch (error) {
+      console.error(`Error indexing ${item.name}:`, error);
     }
   }
 
-  return null;
+  console.log('Backfilled documents:', records.length);
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 }
 
-export async function fetchStoredDocuments(userId: string, forceRefresh = false): Promise<PDFDocument[]> {
+// Queued through the sync outbox, for edits that should survive being offline.
+// Only the changed fields are written, so a stale copy can't undo processing.
+export async function saveDocumentRecord(
+  userId: string,
+  documentId: string,
+  changes: Partial<Omit<DocumentRecord, 'id' | 'createdAt'>>
+): Promise<void> {
   try {
-    let localDocs: PDFDocument[] = [];
-    
-    // If not forcing refresh, try to load from local storage first
-    if (!forceRefresh) {
-      localDocs = await loadDocuments();
-      console.log('Loaded local documents:', localDocs.length);
-      
-      // Return local docs if available and not forcing refresh
-      if (localDocs.length > 0) {
-        return localDocs;
-      }
-    }
-    
-    // Then attempt to fetch from Firebase Storage
-    const mmdRef = ref(storage, `users/${userId}/mmd`);
-    
-    try {
-      console.log('Fetching documents from Firebase Storage...');
-      const filesList = await listAll(mmdRef);
-      console.log('Files found in storage:', filesList.items.length);
-      
-      if (filesList.items.length === 0) {
-        console.log('No files found in storage, clearing local cache');
-        await clearDocumentCache();
-        return [];
-      }
+    await queueUpdate<DocumentRecord>(userId, 'documents', documentId, changes);
+  } catch (error) {
+    console.error('Error saving document record:', error);
+    throw error;
+  }
+}
 
-      // Use Promise.all with a timeout for each document fetch
-      const fetchWithTimeout = async (item: any) => {
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Fetch timeout')), 30000); // 30 second timeout
-        });
-
-        try {
-          const result = await Promise.race([
-            fetchDocument(item, userId),
-            timeoutPromise
-          ]);
-          return result;
-        } catch (error) {
-          console.error(`Timeout or error fetching ${item.name}:`, error);
-          return null;
-        }
-      };
+export async function renameDocument(userId: string, record: DocumentRecord, title: string): Promise<DocumentRecord> {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('The name cannot be empty');
+  }
 
-      const results = await Promise.all(
-        filesList.items.map(item => fetchWithTimeout(item))
-      );
+  await saveDocumentRecord(userId, record.id, { title: trimmed });
+  return { ...record, title: trimmed };
+}
 
-      // Filter out null results
-      const fetchedDocs = results.filter((doc): doc is PDFDocument => doc !== null);
-      console.log(`Successfully fetched ${fetchedDocs.length} documents`);
+export async function organizeDocument(
+  userId: string,
+  record: DocumentRecord,
+  organization: Organization
+): Promise<DocumentRecord> {
+  const changes = {
+    folderId: organization.folderId,
+    tags: [...new Set((organization.tags ?? []).map(normalizeTag).filter(Boolean))],
+  };
+  await saveDocumentRecord(userId, record.id, changes);
+  return { ...record, ...changes };
+}
 
-      if (fetchedDocs.length > 0) {
-        // Save to AsyncStorage for offline access
-        await AsyncStorage.setItem(DOCUMENTS_STORAGE_KEY, JSON.stringify(fetchedDocs));
-        console.log('Saved fetched documents to AsyncStorage');
-        return fetchedDocs;
-      }
-      
-      // Clear cache if no documents were fetched
-      await clearDocumentCache();
-      return [];
-      
-    } catch (storageError: any) {
-      console.error('Error accessing Firebase Storage:', storageError);
-      if (storageError.code === 'storage/unauthorized') {
-        console.error('Storage access unauthorized. Please check Firebase Storage rules.');
-      }
-      // Clear cache on error
-      await clearDocumentCache();
-      return [];
-    }
-    
+const newestFirst = (records: DocumentRecord[]) =>
+  [...records].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export async function getCachedDocumentRecords(userId: string): Promise<DocumentRecord[]> {
+  return newestFirst(await getCachedItems<DocumentRecord>(userId, 'documents'));
+}
+
+export async function fetchDocumentRecords(userId: string): Promise<DocumentRecord[]> {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'users', userId, 'documents'), orderBy('createdAt', 'desc'))
+    );
+    const records = snapshot.empty
+      ? await backfillDocumentRecords(userId)
+      : snapshot.docs.map(document => ({ ...document.data(), id: document.id }) as DocumentRecord);
+
+    return newestFirst(await mergeRemoteItems(
+      userId,
+      'documents',
+      records.map(record => ({ key: record.id, data: record }))
+    ));
   } catch (error) {
-    console.error('Error in fetchStoredDocuments:', error);
-    await clearDocumentCache();
-    return [];
+    console.error('Error fetching document records, using cached copies:', error);
+    return getCachedDocumentRecords(userId);
   }
-}
\ No newline at end of file
+}
+
+export async function cacheDocumentContent(userId: string, documentId: string, content: string): Promise<void> {
+  await cacheContent(userId, documentId, content);
+}
+
+/**
+ * Content is only downloaded once a document is opened and then kept locally.
+ * A cached copy older than the record is refreshed, but still served when
+ * the download fails.
+ */
+export async function fetchDocumentContent(userId: string, record: DocumentRecord): Promise<PDFDocument> {
+  const cached = await getCachedContent(userId, record.id);
+  const toDocument = (content: string): PDFDocument => ({
+    id: record.id,
+    title: record.title,
+    content,
+    timestamp: Date.parse(record.createdAt),
+    pages: record.pages ?? getPageNumbers(content),
+  });
+
+  if (cached && cached.updatedAt >= record.updatedAt) {
+    return toDocument(cached.content);
+  }
+
+  try {
+    const content = await loadMmdFromPath(record.mmdPath);
+    await cacheContent(userId, record.id, content);
+    return toDocument(content);
+  } catch (error) {
+    if (cached) {
+      console.log('Using cached content for document:', record.id);
+      return toDocument(cached.content);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+import { Exercise } from './exercises';
+
+// What the analysis produces; ids and timestamps are added when it is saved
+export type ExerciseAnalysis = Omit<Exercise, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaResult<T> {
+  value?: T;
+  // Problems that could not be fixed; the value is only set when there are none
+  errors: SchemaIssue[];
+  // Fields that were repaired, e.g. a number given as a string
+  coerced: SchemaIssue[];
+}
+
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public issues: SchemaIssue[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+interface Context {
+  errors: SchemaIssue[];
+  coerced: SchemaIssue[];
+}
+
+// A field parser returns the (possibly coerced) value, or undefined after reporting an error
+type Field<T> = (value: unknown, path: string, context: Context) => T | undefined;
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+function string(fallback?: string): Field<string> {
+  return (value, path, context) => {
+    if (typeof value === 'string' && value.trim()) return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      context.coerced.push({ path, message: `converted ${typeof value} to string` });
+      return String(value);
+    }
+    const blank = isMissing(value) || typeof value === 'string';
+    if (fallback !== undefined && blank) return fallback;
+    context.errors.push({ path, message: blank ? 'is required' : `expected a string, got ${typeof value}` });
+    return undefined;
+  };
+}
+
+function number(fallback?: number): Field<number> {
+  return (value, path, context) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    // "12" or "12 exercises"
+    const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+    if (Number.isFinite(parsed)) {
+      context.coerced.push({ path, message: `parsed "${value}" as a number` });
+      return parsed;
+    }
+    if (fallback !== undefined) {
+      if (!isMissing(value)) context.coerced.push({ path, message: `replaced ${JSON.stringify(value)} with ${fallback}` });
+      return fallback;
+    }
+    context.errors.push({ path, message: 'expected a number' });
+    return undefined;
+  };
+}
+
+function boolean(fallback: boolean): Field<boolean> {
+  return (value, path, context) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      context.coerced.push({ path, message: 'parsed string as boolean' });
+      return value === 'true';
+    }
+    if (!isMissing(value)) context.coerced.push({ path, message: `replaced ${JSON.stringify(value)} with ${fallback}` });
+    return fallback;
+  };
+}
+
+function oneOf<T extends string>(options: readonly T[], fallback: T): Field<T> {
+  return (value, path, context) => {
+    const match = options.find(option => option.toLowerCase() === String(value ?? '').trim().toLowerCase());
+    if (match) {
+      if (match !== value) context.coerced.push({ path, message: `normalized "${value}" to "${match}"` });
+      return match;
+    }
+    context.coerced.push({ path, message: `replaced ${JSON.stringify(value)} with "${fallback}"` });
+    return fallback;
+  };
+}
+
+function optional<T>(field: Field<T>): Field<T | undefined> {
+  return (value, path, context) => (isMissing(value) ? undefined : field(value, path, context));
+}
+
+function nullable<T>(field: Field<T>): Field<T | null> {
+  return (value, path, context) => (isMissing(value) ? null : field(value, path, context) ?? null);
+}
+
+// Comma separated strings are accepted for lists of identifiers
+function stringList(): Field<string[]> {
+  return (value, path, context) => {
+    if (isMissing(value)) return [];
+    if (typeof value === 'string') {
+      context.coerced.push({ path, message: 'split string into a list' });
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(value)) {
+      context.coerced.push({ path, message: `replaced ${typeof value} with an empty list` });
+      return [];
+    }
+    return value.filter(item => !isMissing(item)).map(item => String(item));
+  };
+}
+
+function list<T>(item: Field<T>, options: { minLength?: number } = {}): Field<T[]> {
+  return (value, path, context) => {
+    if (!Array.isArray(value)) {
+      context.errors.push({ path, message: isMissing(value) ? 'is required' : 'expected a list' });
+      return undefined;
+    }
+    if (value.length < (options.minLength ?? 0)) {
+      context.errors.push({ path, message: `needs at least ${options.minLength} item(s)` });
+      return undefined;
+    }
+    const items = value.map((entry, index) => item(entry, `${path}[${index}]`, context));
+    return items.every(entry => entry !== undefined) ? (items as T[]) : undefined;
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Field<T[K]> };
+
+function object<T>(shape: Shape<T>, fallback?: () => unknown): Field<T> {
+  return (value, path, context) => {
+    let source = value;
+    if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+      if (!fallback) {
+        context.errors.push({ path, message: 'expected an object' });
+        return undefined;
+      }
+      if (!isMissing(source)) context.coerced.push({ path, message: `replaced ${typeof source} with defaults` });
+      source = fallback();
+    }
+
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const errorCount = context.errors.length;
+      const parsed = shape[key]((source as Record<string, unknown>)[key], path ? `${path}.${key}` : key, context);
+      if (context.errors.length > errorCount) valid = false;
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return valid ? (result as T) : undefined;
+  };
+}
+
+type SubExercise = ExerciseAnalysis['subExercises'][number];
+
+// Sources are found in the page layout after validation; the model only sees
+// the text, so any source it returns is left out
+const subExerciseSchema: Field<SubExercise> = (value, path, context) => {
+  const entry = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const index = Number(path.match(/\[(\d+)\]$/)?.[1] ?? 0);
+  return object<Omit<SubExercise, 'source'>>({
+    id: string(String(index + 1)),
+    question: string(),
+    image: optional(string()),
+    correctAnswer: string(''),
+    order: number(index + 1),
+    isSubPart: boolean(false),
+    contextId: nullable(string()),
+    relatedParts: nullable(stringList()),
+    originalNumber: string(String(entry.id ?? index + 1)),
+  })(value, path, context);
+};
+
+const analysisSchema = object<Omit<ExerciseAnalysis, 'documentId' | 'contexts' | 'folderId' | 'tags' | 'staleSince'>>({
+  title: string('Untitled exercises'),
+  description: string(''),
+  difficulty: oneOf(['beginner', 'intermediate', 'advanced'] as const, 'intermediate'),
+  subject: oneOf(['Mathematics', 'Physics', 'Chemistry'] as const, 'Mathematics'),
+  totalExercises: number(0),
+  exerciseChecklist: stringList(),
+  context: object({ id: string('ctx-1'), content: string('') }, () => ({})),
+  subExercises: list(subExerciseSchema, { minLength: 1 }),
+  validationResults: object({
+    totalExercisesFound: number(0),
+    allExercisesExtracted: boolean(false),
+    missingExercises: stringList(),
+    validationChecks: stringList(),
+  }, () => ({})),
+});
+
+const documentSchema = object<{ exerciseSets: ExerciseAnalysis[] }>({
+  exerciseSets: list(analysisSchema, { minLength: 1 }),
+});
+
+// A missing count is taken from what was actually extracted
+function withCounts(value: ExerciseAnalysis): ExerciseAnalysis {
+  if (value.totalExercises <= 0) {
+    value.totalExercises = value.subExercises.length;
+  }
+  if (value.validationResults.totalExercisesFound <= 0) {
+    value.validationResults.totalExercisesFound = value.subExercises.length;
+  }
+  return value;
+}
+
+/**
+ * Checks model output against the Exercise shape. Recoverable problems, like
+ * numbers given as strings or an unknown difficulty, are repaired and listed
+ * in `coerced`; anything else ends up in `errors`.
+ */
+export function validateExerciseAnalysis(raw: unknown): SchemaResult<ExerciseAnalysis> {
+  const context: Context = { errors: [], coerced: [] };
+  const value = analysisSchema(raw, '', context);
+  if (!value || context.errors.length > 0) {
+    return { errors: context.errors, coerced: context.coerced };
+  }
+  return { value: withCounts(value), errors: [], coerced: context.coerced };
+}
+
+/**
+ * Checks the exercise sets of a document analysis. A response holding a
+ * single set, as the model sometimes still returns, is read as a list of one.
+ */
+export function validateDocumentAnalysis(raw: unknown): SchemaResult<ExerciseAnalysis[]> {
+  if (typeof raw === 'object' && raw !== null && 'subExercises' in raw) {
+    const result = validateExerciseAnalysis(raw);
+    return { ...result, value: result.value && [result.value] };
+  }
+
+  const context: Context = { errors: [], coerced: [] };
+  const value = documentSchema(raw, '', context);
+  if (!value || context.errors.length > 0) {
+    return { errors: context.errors, coerced: context.coerced };
+  }
+  return { value: value.exerciseSets.map(withCounts), errors: [], coerced: context.coerced };
+}
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `- ${issue.path || 'response'}: ${issue.message}`).join('\n');
+}
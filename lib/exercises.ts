@@ -1,8 +1,14 @@
 import { db } from './firebase';
-import { collection, doc, setDoc, getDocs, query, where } from 'firebase/firestore';
+import { collection, getDocs } from 'firebase/firestore';
+import { ExerciseSource } from './layout';
+import { getCachedItems, mergeRemoteItems, queueWrite } from './sync';
+import { Organization, normalizeTag } from './folders';
+import { getReplacedExerciseSets, purgeReplacedExerciseSets } from './trash';
 
 export interface Exercise {
   id: string; // Add id to the interface
+  // Document the set was analyzed from; sets saved before documents had several lack it and use its id
+  documentId?: string;
   title: string;
   description: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
@@ -13,15 +19,22 @@ export interface Exercise {
     id: string;
     content: string;
   };
+  // Further shared contexts, when sub-parts refer to more than one (e.g. long documents analyzed in chunks)
+  contexts?: {
+    id: string;
+    content: string;
+  }[];
   subExercises: {
     id: string;
     question: string;
+    image?: string;
     correctAnswer: string;
     order: number;
     isSubPart: boolean;
     contextId: string | null;
     relatedParts: string[] | null;
     originalNumber: string;
+    source?: ExerciseSource;
   }[];
   validationResults: {
     totalExercisesFound: number;
@@ -29,44 +42,156 @@ export interface Exercise {
     missingExercises: string[];
     validationChecks: string[];
   };
+  folderId?: string;
+  tags?: string[];
+  // Set when the document changed after this analysis
+  staleSince?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-export async function saveExerciseAnalysis(
+// Every analysis gets new ids, so solutions and attempts of an earlier one
+// never end up on the renumbered questions of the next
+export function exerciseSetId(documentId: string, analyzedAt: string, index: number): string {
+  return `${documentId}-${Date.parse(analyzedAt).toString(36)}-${index + 1}`;
+}
+
+export function belongsToDocument(exercise: Exercise, documentId: string): boolean {
+  return (exercise.documentId ?? exercise.id) === documentId;
+}
+
+// The sets analyzed from a document, in the order the analysis returned them
+export function documentExercises(exercises: Exercise[], documentId: string): Exercise[] {
+  return exercises
+    .filter(exercise => belongsToDocument(exercise, documentId))
+    .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+/**
+ * Saves the exercise sets of a document, replacing those of an earlier
+ * analysis. Returns the ids of the earlier sets, which are to be purged.
+ */
+export async function saveExerciseSets(
   userId: string,
   documentId: string,
-  analysis: Omit<Exercise, 'id' | 'createdAt' | 'updatedAt'>
-): Promise<void> {
+  analyses: Omit<Exercise, 'id' | 'createdAt' | 'updatedAt'>[]
+): Promise<string[]> {
   try {
-    const exerciseRef = doc(collection(db, 'users', userId, 'exercises'), documentId);
-    await setDoc(exerciseRef, {
-      ...analysis,
-      id: documentId, // Add the document ID to the saved data
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+    const previous = documentExercises(await getCachedExercises(userId), documentId);
+    const analyzedAt = new Date().toISOString();
+
+    // Queued so an analysis finished offline isn't lost
+    for (const [index, analysis] of analyses.entries()) {
+      const id = exerciseSetId(documentId, analyzedAt, index);
+      // Filing and creation date are taken over from the set this one replaces
+      const replaced = previous[index] ?? previous[0];
+      await queueWrite(userId, 'exercises', id, {
+        ...analysis,
+        id,
+        documentId,
+        folderId: replaced?.folderId,
+        tags: replaced?.tags,
+        createdAt: replaced?.createdAt ?? analyzedAt,
+      });
+    }
+
+    return previous.map(exercise => exercise.id);
+  } catch (error) {
+    console.error('Error saving exercise sets:', error);
+    throw error;
+  }
+}
+
+export async function organizeExercise(
+  userId: string,
+  exercise: Exercise,
+  organization: Organization
+): Promise<Exercise> {
+  try {
+    return await queueWrite(userId, 'exercises', exercise.id, {
+      ...exercise,
+      folderId: organization.folderId,
+      tags: [...new Set((organization.tags ?? []).map(normalizeTag).filter(Boolean))],
     });
   } catch (error) {
-    console.error('Error saving exercise analysis:', error);
+    console.error('Error organizing exercise:', error);
     throw error;
   }
 }
 
+export async function markDocumentExercisesStale(userId: string, documentId: string): Promise<void> {
+  try {
+    const exercises = await getCachedItems<Exercise>(userId, 'exercises');
+    for (const exercise of exercises.filter(item => belongsToDocument(item, documentId) && !item.staleSince)) {
+      await queueWrite(userId, 'exercises', exercise.id, {
+        ...exercise,
+        staleSince: new Date().toISOString(),
+      });
+    }
+  } catch (error) {
+    console.error('Error marking exercises as stale:', error);
+    throw error;
+  }
+}
+
+export async function getCachedExercises(userId: string): Promise<Exercise[]> {
+  return getCachedItems<Exercise>(userId, 'exercises');
+}
+
 export async function fetchExercises(userId: string): Promise<Exercise[]> {
   try {
     console.log('Fetching exercises for user:', userId);
+    // Sets replaced by a newer analysis are left out until they could be deleted
+    await purgeReplacedExerciseSets(userId);
+    const replaced = new Set(await getReplacedExerciseSets(userId));
+
     const exercisesRef = collection(db, 'users', userId, 'exercises');
     const exercisesSnapshot = await getDocs(exercisesRef);
     
-    const exercises = exercisesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as Exercise[];
+    const exercises = await mergeRemoteItems<Exercise>(
+      userId,
+      'exercises',
+      exercisesSnapshot.docs.filter(doc => !replaced.has(doc.id)).map(doc => ({
+        key: doc.id,
+        data: { id: doc.id, ...doc.data() } as Exercise,
+      }))
+    );
 
     console.log('Fetched exercises:', exercises);
     return exercises;
   } catch (error) {
-    console.error('Error fetching exercises:', error);
+    console.error('Error fetching exercises, using cached copies:', error);
+    return getCachedExercises(userId);
+  }
+}
+
+export interface AnswerAttempt {
+  id: string;
+  exerciseId: string;
+  subExerciseId: string;
+  imageUrl: string;
+  answer: string;
+  isCorrect: boolean;
+  feedback: string;
+  mistakes?: string[];
+  tips?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function saveAttempt(
+  userId: string,
+  attempt: Omit<AnswerAttempt, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<void> {
+  try {
+    const id = `${attempt.subExerciseId}-${Date.now()}`;
+    await queueWrite(userId, 'attempts', `${attempt.exerciseId}/${id}`, {
+      ...attempt,
+      id,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error saving attempt:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,424 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import katex from 'katex';
+import { Exercise } from './exercises';
+import { ExerciseSolution } from './solutions';
+
+export type ExportFormat = 'tex' | 'html' | 'pdf';
+
+export interface ExerciseExportOptions {
+  includeHints: boolean;
+  // Solution steps go wherever the answers go
+  includeSolutions: boolean;
+  // 'separate' collects the answers in a key that starts on a new page
+  answerKey: 'none' | 'inline' | 'separate';
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'image'; alt: string; url: string }
+  | { type: 'math'; tex: string }
+  | { type: 'environment'; name: string; body: string }
+  | { type: 'page'; number: number }
+  | { type: 'pageBreak' };
+
+const PAGE_BREAK = '<!-- pagebreak -->';
+const DISPLAY_MATH = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\begin\{([a-zA-Z]+\*?)\}([\s\S]+?)\\end\{\3\}/g;
+const INLINE_MATH = /\$([^$\n]+?)\$|\\\(([\s\S]+?)\\\)/g;
+const MATH_ENVIRONMENTS = ['equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*', 'eqnarray', 'eqnarray*'];
+
+function headingOf(line: string): { level: number; text: string } | null {
+  const markdown = line.match(/^(#{1,6})\s+(.*)$/);
+  if (markdown) return { level: markdown[1].length, text: markdown[2].trim() };
+
+  const title = line.match(/^\\title\{(.*)\}$/);
+  if (title) return { level: 1, text: title[1] };
+
+  const section = line.match(/^\\(section|subsection|subsubsection)\*?\{(.*)\}$/);
+  if (section) return { level: { section: 2, subsection: 3, subsubsection: 4 }[section[1]]!, text: section[2] };
+
+  return null;
+}
+
+// Splits MMD into blocks; display math and environments are pulled out first
+// so blank lines inside them don't break them apart
+function parseBlocks(mmd: string): Block[] {
+  const extracted: Block[] = [];
+  const text = mmd.replace(DISPLAY_MATH, (_, dollar, bracket, name, body) => {
+    extracted.push(name ? { type: 'environment', name, body } : { type: 'math', tex: (dollar ?? bracket).trim() });
+    return `\n\n\u0000${extracted.length - 1}\u0000\n\n`;
+  });
+
+  const blocks: Block[] = [];
+  for (const chunk of text.split(/\n\s*\n/)) {
+    let paragraph: string[] = [];
+    let list: Extract<Block, { type: 'list' }> | null = null;
+    const flush = () => {
+      if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      if (list) blocks.push(list);
+      paragraph = [];
+      list = null;
+    };
+
+    for (const rawLine of chunk.split('\n')) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const placeholder = line.match(/^\u0000(\d+)\u0000$/);
+      const page = line.match(/^<!-- page (\d+) -->$/);
+      const image = line.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
+      const heading = headingOf(line);
+      const item = line.match(/^(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+
+      if (placeholder || page || image || heading || line === PAGE_BREAK) {
+        flush();
+        if (placeholder) blocks.push(extracted[Number(placeholder[1])]);
+        else if (page) blocks.push({ type: 'page', number: Number(page[1]) });
+        else if (image) blocks.push({ type: 'image', alt: image[1], url: image[2] });
+        else if (heading) blocks.push({ type: 'heading', ...heading });
+        else blocks.push({ type: 'pageBreak' });
+      } else if (item) {
+        const ordered = !item[1];
+        if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+        list = list ?? { type: 'list', ordered, items: [] };
+        list.items.push(item[3]);
+      } else if (list && rawLine.match(/^\s+/)) {
+        // Indented lines continue the previous item
+        list.items[list.items.length - 1] += ` ${line}`;
+      } else {
+        if (list) flush();
+        paragraph.push(line);
+      }
+    }
+    flush();
+  }
+
+  // Placeholders inside paragraphs are put back as inline display math
+  return blocks.map(block =>
+    block.type === 'paragraph'
+      ? { ...block, text: block.text.replace(/\u0000(\d+)\u0000/g, (_, index) => {
+          const inner = extracted[Number(index)];
+          return inner.type === 'math' ? `$$${inner.tex}$$` : '';
+        }) }
+      : block
+  );
+}
+
+// Replaces inline math with the output of `renderMath` and the text between with `renderText`
+function mapInline(text: string, renderText: (text: string) => string, renderMath: (tex: string, display: boolean) => string): string {
+  let result = '';
+  let last = 0;
+  const pattern = new RegExp(`\\$\\$([\\s\\S]+?)\\$\\$|${INLINE_MATH.source}`, 'g');
+  for (const match of text.matchAll(pattern)) {
+    result += renderText(text.slice(last, match.index));
+    result += match[1] !== undefined ? renderMath(match[1], true) : renderMath(match[2] ?? match[3], false);
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return result + renderText(text.slice(last));
+}
+
+const latexText = (text: string) =>
+  text
+    .replace(/([&%#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\*\*([^*]+)\*\*/g, '\\textbf{$1}')
+    .replace(/\*([^*]+)\*/g, '\\textit{$1}')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '\\href{$2}{$1}');
+
+const latexInline = (text: string) =>
+  mapInline(text, latexText, (tex, display) => (display ? `\\[${tex}\\]` : `$${tex}$`));
+
+const LATEX_HEADINGS = ['section*', 'section*', 'subsection*', 'subsubsection*', 'paragraph', 'paragraph'];
+
+export function mmdToLatex(title: string, mmd: string): string {
+  const body = parseBlocks(mmd).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `\\${LATEX_HEADINGS[block.level - 1]}{${latexInline(block.text)}}`;
+      case 'paragraph':
+        return latexInline(block.text);
+      case 'list': {
+        const environment = block.ordered ? 'enumerate' : 'itemize';
+        return [
+          `\\begin{${environment}}`,
+          ...block.items.map(item => `  \\item ${latexInline(item)}`),
+          `\\end{${environment}}`,
+        ].join('\n');
+      }
+      case 'image':
+        // Remote images can't be included without downloading them first
+        return `\\begin{center}\\href{${block.url}}{[Image${block.alt ? `: ${latexText(block.alt)}` : ''}]}\\end{center}`;
+      case 'math':
+        return `\\[\n${block.tex}\n\\]`;
+      case 'environment':
+        return `\\begin{${block.name}}${block.body}\\end{${block.name}}`;
+      case 'page':
+        return `% Page ${block.number}`;
+      case 'pageBreak':
+        return '\\newpage';
+    }
+  });
+
+  return [
+    '\\documentclass[11pt]{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\usepackage[margin=2.5cm]{geometry}',
+    '\\usepackage{hyperref}',
+    `\\title{${latexText(title)}}`,
+    '\\date{}',
+    '',
+    '\\begin{document}',
+    '\\maketitle',
+    '',
+    body.join('\n\n'),
+    '',
+    '\\end{document}',
+    '',
+  ].join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const htmlText = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\\textbf\{([^}]*)\}/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/\\(textit|emph)\{([^}]*)\}/g, '<em>$2</em>')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\n/g, '<br>');
+
+function renderKatex(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, {
+    displayMode,
+    throwOnError: false,
+    output: 'htmlAndMathml',
+    macros: {
+      "\\f": "f(#1)",
+    },
+  });
+}
+
+const htmlInline = (text: string) => mapInline(text, htmlText, renderKatex);
+
+function tabularToHtml(body: string): string {
+  const rows = body
+    .replace(/^\{[^}]*\}/, '')
+    .split(/\\\\/)
+    .map(row => row.replace(/\\hline/g, '').trim())
+    .filter(Boolean);
+  return `<table>${rows
+    .map(row => `<tr>${row.split('&').map(cell => `<td>${htmlInline(cell.trim())}</td>`).join('')}</tr>`)
+    .join('')}</table>`;
+}
+
+function environmentToHtml(name: string, body: string): string {
+  if (MATH_ENVIRONMENTS.includes(name)) {
+    return `<div class="math">${renderKatex(`\\begin{${name}}${body}\\end{${name}}`, true)}</div>`;
+  }
+  if (name === 'tabular') {
+    return tabularToHtml(body);
+  }
+  if (name === 'itemize' || name === 'enumerate') {
+    const tag = name === 'itemize' ? 'ul' : 'ol';
+    const items = body.split(/\\item\s*/).map(item => item.trim()).filter(Boolean);
+    return `<${tag}>${items.map(item => `<li>${htmlInline(item)}</li>`).join('')}</${tag}>`;
+  }
+  return `<pre>${escapeHtml(`\\begin{${name}}${body}\\end{${name}}`)}</pre>`;
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    color: #1e293b; line-height: 1.6; max-width: 800px; margin: 0 auto; padding: 32px 24px; }
+  h1, h2, h3, h4 { line-height: 1.3; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; margin: 16px 0; }
+  td { border: 1px solid #e5e7eb; padding: 4px 8px; }
+  pre { white-space: pre-wrap; background: #f1f5f9; padding: 12px; border-radius: 8px; }
+  .math { overflow-x: auto; }
+  .page-marker { color: #94a3b8; font-size: 13px; text-align: center; border-top: 1px solid #e5e7eb; margin: 24px 0; padding-top: 4px; }
+  .page-break { break-before: page; page-break-before: always; }
+  @media print { body { padding: 0; } .page-marker { display: none; } }
+`;
+
+/**
+ * Formulas are rendered with KaTeX ahead of time, so the file only needs the
+ * KaTeX stylesheet and falls back to MathML without it.
+ */
+export function mmdToHtml(title: string, mmd: string): string {
+  const body = parseBlocks(mmd).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${htmlInline(block.text)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${htmlInline(block.text)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}>${block.items.map(item => `<li>${htmlInline(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'image':
+        return `<p><img src="${escapeHtml(block.url)}" alt="${escapeHtml(block.alt)}"></p>`;
+      case 'math':
+        return `<div class="math">${renderKatex(block.tex, true)}</div>`;
+      case 'environment':
+        return environmentToHtml(block.name, block.body);
+      case 'page':
+        return `<div class="page-marker">Page ${block.number}</div>`;
+      case 'pageBreak':
+        return '<div class="page-break"></div>';
+    }
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+// Exercise sets are exported by writing them out as MMD first
+export function exerciseToMmd(
+  exercise: Exercise,
+  solutions: ExerciseSolution[],
+  options: ExerciseExportOptions
+): string {
+  const sections: string[] = [];
+  const answerKey: string[] = [PAGE_BREAK, '# Answer key'];
+
+  if (exercise.description) sections.push(exercise.description);
+  if (exercise.context?.content) sections.push(exercise.context.content);
+
+  // Further contexts go before the first sub-part that refers to them
+  const pendingContexts = new Map(
+    (exercise.contexts ?? [])
+      .filter(context => context.id !== exercise.context?.id && context.content)
+      .map(context => [context.id, context.content])
+  );
+
+  [...exercise.subExercises].sort((a, b) => a.order - b.order).forEach(subExercise => {
+    const solution = solutions.find(item => item.subExerciseId === subExercise.id);
+    const heading = `## ${subExercise.originalNumber}`;
+    const context = subExercise.contextId ? pendingContexts.get(subExercise.contextId) : undefined;
+    if (context) {
+      sections.push(context);
+      pendingContexts.delete(subExercise.contextId!);
+    }
+    sections.push(heading, subExercise.question);
+
+    if (options.includeHints && solution && solution.hints.length > 0) {
+      sections.push('**Hints**', solution.hints.map(hint => `- ${hint}`).join('\n'));
+    }
+
+    const answer: string[] = [];
+    if (options.includeSolutions && solution) {
+      [...solution.steps].sort((a, b) => a.number - b.number).forEach(step => {
+        answer.push(`**Step ${step.number}.** ${step.description}`);
+        if (step.math) answer.push(`$$${step.math.replace(/^\$+|\$+$/g, '')}$$`);
+        if (step.explanation) answer.push(step.explanation);
+      });
+    }
+    const finalAnswer = solution?.finalAnswer || subExercise.correctAnswer;
+    if (finalAnswer) answer.push(`**Answer:** ${finalAnswer}`);
+
+    if (options.answerKey === 'inline') {
+      sections.push(...answer);
+    } else if (options.answerKey === 'separate' && answer.length > 0) {
+      answerKey.push(heading, ...answer);
+    }
+  });
+
+  if (options.answerKey === 'separate' && answerKey.length > 2) {
+    sections.push(...answerKey);
+  }
+  return sections.join('\n\n');
+}
+
+const safeFilename = (title: string) =>
+  title.replace(/[^\p{L}\p{N}\- ]+/gu, '').trim().replace(/\s+/g, '-') || 'export';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  tex: 'application/x-tex',
+  html: 'text/html',
+  pdf: 'application/pdf',
+};
+
+function downloadOnWeb(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Browsers have no PDF writer, so the page opens in a new tab with the print dialog
+function printOnWeb(html: string) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups to print this export');
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.onload = () => printWindow.print();
+}
+
+async function shareFile(uri: string, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: 'Export' });
+}
+
+/**
+ * Renders MMD in the given format and hands it to the share sheet, or
+ * downloads it on web.
+ */
+export async function exportMmd(title: string, mmd: string, format: ExportFormat): Promise<void> {
+  try {
+    const filename = `${safeFilename(title)}.${format}`;
+    const content = format === 'tex' ? mmdToLatex(title, mmd) : mmdToHtml(title, mmd);
+    console.log('Exporting:', filename);
+
+    if (Platform.OS === 'web') {
+      if (format === 'pdf') {
+        printOnWeb(content);
+      } else {
+        downloadOnWeb(filename, content, MIME_TYPES[format]);
+      }
+      return;
+    }
+
+    const target = `${FileSystem.cacheDirectory}${filename}`;
+    if (format === 'pdf') {
+      const { uri } = await Print.printToFileAsync({ html: content });
+      await FileSystem.deleteAsync(target, { idempotent: true });
+      await FileSystem.moveAsync({ from: uri, to: target });
+    } else {
+      await FileSystem.writeAsStringAsync(target, content);
+    }
+    await shareFile(target, MIME_TYPES[format]);
+  } catch (error) {
+    console.error('Error exporting:', error);
+    throw error;
+  }
+}
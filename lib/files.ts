@@ -0,0 +1,16 @@
+// FileReader is used because Blob.text() and arrayBuffer() are missing on native
+export function readBlob(file: Blob, as: 'text' | 'base64'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(as === 'base64' ? result.slice(result.indexOf(',') + 1) : result);
+    };
+    reader.onerror = () => reject(reader.error);
+    if (as === 'base64') {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
@@ -0,0 +1,133 @@
+import { db } from './firebase';
+import { collection, doc, getDocs } from 'firebase/firestore';
+import { getCachedItems, mergeRemoteItems, queueWrite } from './sync';
+
+// A course or folder that documents and exercise sets can be filed under
+export interface Folder {
+  id: string;
+  name: string;
+  // Folders are only marked as deleted so the change can sync like any other write
+  deletedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where an item is filed; shared by documents and exercise sets
+export interface Organization {
+  folderId?: string;
+  tags?: string[];
+}
+
+const visibleFolders = (folders: Folder[]) =>
+  folders
+    .filter(folder => !folder.deletedAt)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export async function getCachedFolders(userId: string): Promise<Folder[]> {
+  return visibleFolders(await getCachedItems<Folder>(userId, 'folders'));
+}
+
+export async function fetchFolders(userId: string): Promise<Folder[]> {
+  try {
+    const snapshot = await getDocs(collection(db, 'users', userId, 'folders'));
+    const folders = await mergeRemoteItems<Folder>(
+      userId,
+      'folders',
+      snapshot.docs.map(folder => ({
+        key: folder.id,
+        data: { ...folder.data(), id: folder.id } as Folder,
+      }))
+    );
+    return visibleFolders(folders);
+  } catch (error) {
+    console.error('Error fetching folders, using cached copies:', error);
+    return getCachedFolders(userId);
+  }
+}
+
+export async function createFolder(userId: string, name: string): Promise<Folder> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('The name cannot be empty');
+  }
+
+  try {
+    const id = doc(collection(db, 'users', userId, 'folders')).id;
+    return await queueWrite(userId, 'folders', id, {
+      id,
+      name: trimmed,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    throw error;
+  }
+}
+
+export async function renameFolder(userId: string, folder: Folder, name: string): Promise<Folder> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('The name cannot be empty');
+  }
+
+  try {
+    return await queueWrite(userId, 'folders', folder.id, { ...folder, name: trimmed });
+  } catch (error) {
+    console.error('Error renaming folder:', error);
+    throw error;
+  }
+}
+
+// Items filed under a deleted folder are treated as unfiled by the screens
+export async function deleteFolder(userId: string, folder: Folder): Promise<void> {
+  try {
+    await queueWrite(userId, 'folders', folder.id, { ...folder, deletedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    throw error;
+  }
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^#/, '');
+}
+
+const STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'from', 'exercise', 'exercises', 'worksheet', 'sheet',
+  'und', 'der', 'die', 'das', 'mit', 'aufgabe', 'aufgaben', 'blatt',
+]);
+
+/**
+ * Suggests tags for an item from the analysis subject and the significant
+ * words of its title, leaving out tags the item already has.
+ */
+export function suggestTags(subject: string | undefined, title: string | undefined, existing: string[] = []): string[] {
+  const words = (title ?? '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(normalizeTag)
+    .filter(word => word.length >= 4 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+
+  const suggestions = [subject ? normalizeTag(subject) : '', ...words].filter(Boolean);
+  return [...new Set(suggestions)].filter(tag => !existing.includes(tag)).slice(0, 5);
+}
+
+// All tags used by the given items, for the filter bar
+export function collectTags(items: Organization[]): string[] {
+  return [...new Set(items.flatMap(item => item.tags ?? []))].sort();
+}
+
+// Filter value for items that aren't filed in any folder
+export const UNFILED = 'unfiled';
+
+export function matchesFilter(
+  item: Organization,
+  folders: Folder[],
+  folderId: string | null,
+  tag: string | null
+): boolean {
+  // Unknown folder ids belong to deleted folders
+  const itemFolder = folders.some(folder => folder.id === item.folderId) ? item.folderId : undefined;
+  if (folderId === UNFILED && itemFolder) return false;
+  if (folderId && folderId !== UNFILED && itemFolder !== folderId) return false;
+  return !tag || (item.tags ?? []).includes(tag);
+}
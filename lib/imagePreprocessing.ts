@@ -0,0 +1,352 @@
+import { Platform } from 'react-native';
+import { ImageManipulator, ImageRef, SaveFormat } from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { STORAGE_QUOTAS, formatBytes } from './usage';
+
+export interface PreprocessedImage {
+  uri: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  size: number;
+}
+
+export interface CropRect {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  crop?: CropRect;
+  enhance?: boolean;
+}
+
+// Large enough for handwriting to stay legible, small enough for the upload limit
+export const TARGET_MAX_DIMENSION = 2400;
+// The smallest per-file limit, so photos fit whatever the user's plan
+export const MAX_IMAGE_SIZE = STORAGE_QUOTAS.free.maxFileSize;
+
+const COMPRESS_STEPS = [0.8, 0.6, 0.4];
+
+// Skew is estimated on a small copy, within ±MAX_SKEW degrees
+const SKEW_SAMPLE_WIDTH = 600;
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.5;
+
+// Native enhancement runs in JS, so it works on a copy no larger than this
+const ENHANCE_MAX_DIMENSION = 1600;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// RGBA, four bytes per pixel
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+async function getFileSize(uri: string): Promise<number> {
+  const blob = await fetch(uri).then(r => r.blob());
+  return blob.size;
+}
+
+/**
+ * Decodes the photo once so the EXIF orientation is baked into the pixels and
+ * scales it down to the target size. Everything afterwards works on this copy.
+ */
+export async function loadImage(uri: string): Promise<PreprocessedImage> {
+  try {
+    const original = await ImageManipulator.manipulate(uri).renderAsync();
+    const scale = TARGET_MAX_DIMENSION / Math.max(original.width, original.height);
+
+    const context = ImageManipulator.manipulate(uri);
+    if (scale < 1) {
+      context.resize({
+        width: Math.round(original.width * scale),
+        height: Math.round(original.height * scale),
+      });
+    }
+
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({ compress: 0.9, format: SaveFormat.JPEG });
+    return {
+      ...result,
+      mimeType: 'image/jpeg',
+      size: await getFileSize(result.uri),
+    };
+  } catch (error) {
+    console.error('Error loading image:', error);
+    throw new Error('Could not read the selected image');
+  }
+}
+
+export async function rotateImage(image: PreprocessedImage, degrees: number): Promise<PreprocessedImage> {
+  if (degrees % 360 === 0) {
+    return image;
+  }
+
+  const rotated = await ImageManipulator.manipulate(image.uri).rotate(degrees).renderAsync();
+  const result = await rotated.saveAsync({ compress: 0.9, format: SaveFormat.JPEG });
+  return {
+    ...result,
+    mimeType: 'image/jpeg',
+    size: await getFileSize(result.uri),
+  };
+}
+
+async function loadWebImage(uri: string): Promise<HTMLImageElement> {
+  const image = new window.Image();
+  image.crossOrigin = 'anonymous';
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = reject;
+    image.src = uri;
+  });
+  return image;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Encoded into a typed array first, so only the finished text becomes a string
+function bytesToBase64(bytes: Uint8Array): string {
+  const output = new Uint8Array(Math.ceil(bytes.length / 3) * 4);
+  const padding = '='.charCodeAt(0);
+  for (let i = 0, o = 0; i < bytes.length; i += 3, o += 4) {
+    const remaining = bytes.length - i;
+    const triple = (bytes[i] << 16) | ((remaining > 1 ? bytes[i + 1] : 0) << 8) | (remaining > 2 ? bytes[i + 2] : 0);
+    output[o] = BASE64_CHARS.charCodeAt((triple >> 18) & 63);
+    output[o + 1] = BASE64_CHARS.charCodeAt((triple >> 12) & 63);
+    output[o + 2] = remaining > 1 ? BASE64_CHARS.charCodeAt((triple >> 6) & 63) : padding;
+    output[o + 3] = remaining > 2 ? BASE64_CHARS.charCodeAt(triple & 63) : padding;
+  }
+
+  const chunks: string[] = [];
+  for (let i = 0; i < output.length; i += 0x8000) {
+    chunks.push(String.fromCharCode(...output.subarray(i, i + 0x8000)));
+  }
+  return chunks.join('');
+}
+
+// Images are always JPEGs here, since loadImage re-encodes whatever was picked
+async function readPixels(uri: string): Promise<Pixels> {
+  if (Platform.OS === 'web') {
+    const image = await loadWebImage(uri);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(image, 0, 0);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { width: canvas.width, height: canvas.height, data: new Uint8Array(data.buffer) };
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  const { width, height, data } = decodeJpeg(base64ToBytes(base64), { useTArray: true, formatAsRGBA: true });
+  return { width, height, data };
+}
+
+// An uncompressed 8-bit grayscale BMP, which the image manipulator reads on
+// iOS and Android. Enhanced pixels are gray, so one byte per pixel is enough.
+function encodeBmp({ width, height, data }: Pixels): Uint8Array {
+  const headerSize = 54 + 256 * 4;
+  const rowSize = Math.ceil(width / 4) * 4;
+  const bytes = new Uint8Array(headerSize + rowSize * height);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x42;
+  bytes[1] = 0x4d;
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, headerSize, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  // Negative height stores the rows top-down
+  view.setInt32(22, -height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 8, true);
+  view.setUint32(34, rowSize * height, true);
+  view.setUint32(46, 256, true);
+
+  for (let value = 0; value < 256; value++) {
+    bytes.fill(value, 54 + value * 4, 54 + value * 4 + 3);
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      bytes[headerSize + y * rowSize + x] = data[(y * width + x) * 4];
+    }
+  }
+  return bytes;
+}
+
+async function writePixels(pixels: Pixels): Promise<string> {
+  if (Platform.OS === 'web') {
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    const context = canvas.getContext('2d')!;
+    const imageData = context.createImageData(pixels.width, pixels.height);
+    imageData.data.set(pixels.data);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  }
+
+  const uri = `${FileSystem.cacheDirectory}enhanced-${Date.now()}.bmp`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(encodeBmp(pixels)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+}
+
+const luminance = (data: Uint8Array, pixel: number) =>
+  Math.round(0.299 * data[pixel * 4] + 0.587 * data[pixel * 4 + 1] + 0.114 * data[pixel * 4 + 2]);
+
+/**
+ * Converts to grayscale and stretches the contrast: the paper, taken as the
+ * 90th percentile, becomes white and the darkest 1% black. Pages with very
+ * little ink keep a minimum range so the paper isn't turned black.
+ */
+export function enhancePixels(pixels: Pixels): Pixels {
+  const count = pixels.width * pixels.height;
+  const gray = new Uint8Array(count);
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < count; i++) {
+    gray[i] = luminance(pixels.data, i);
+    histogram[gray[i]]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen >= count * fraction) return value;
+    }
+    return 255;
+  };
+  const high = percentile(0.9);
+  const low = Math.max(0, Math.min(percentile(0.01), high - 64));
+  const range = Math.max(1, high - low);
+
+  const data = new Uint8Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    const value = Math.min(255, Math.max(0, Math.round(((gray[i] - low) * 255) / range)));
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    data[i * 4 + 3] = 255;
+  }
+  return { width: pixels.width, height: pixels.height, data };
+}
+
+/**
+ * Finds the angle at which the dark pixels line up best in rows, i.e. the
+ * text lines are horizontal. Returns the clockwise rotation that straightens them.
+ */
+export function findSkewAngle(pixels: Pixels): number {
+  const count = pixels.width * pixels.height;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += luminance(pixels.data, i);
+  }
+  // Ink is noticeably darker than the average, which is mostly paper
+  const threshold = (total / count) * 0.75;
+
+  const points: [number, number][] = [];
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      if (luminance(pixels.data, y * pixels.width + x) < threshold) points.push([x, y]);
+    }
+  }
+  if (points.length === 0) return 0;
+
+  let best = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const offset = pixels.width;
+    const rows = new Array<number>(pixels.height + 2 * offset).fill(0);
+    for (const [x, y] of points) {
+      rows[Math.round(y * cos - x * sin) + offset]++;
+    }
+    // Aligned lines give few, tall peaks
+    const score = rows.reduce((sum, row) => sum + row * row, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return best === 0 ? 0 : -best;
+}
+
+// Estimates how far the photo is tilted, in degrees to rotate it by
+export async function estimateSkew(image: PreprocessedImage): Promise<number> {
+  try {
+    const context = ImageManipulator.manipulate(image.uri);
+    if (image.width > SKEW_SAMPLE_WIDTH) {
+      context.resize({ width: SKEW_SAMPLE_WIDTH });
+    }
+    const rendered = await context.renderAsync();
+    const sample = await rendered.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+    return findSkewAngle(await readPixels(sample.uri));
+  } catch (error) {
+    console.error('Error estimating skew:', error);
+    throw new Error('Could not straighten the image');
+  }
+}
+
+// Native photos are scaled down first, so decoding them in JS stays within a few MB
+async function enhance(image: ImageRef): Promise<string> {
+  const context = ImageManipulator.manipulate(image);
+  const scale = ENHANCE_MAX_DIMENSION / Math.max(image.width, image.height);
+  if (Platform.OS !== 'web' && scale < 1) {
+    context.resize({ width: Math.round(image.width * scale) });
+  }
+  const rendered = await context.renderAsync();
+  const sample = await rendered.saveAsync({ compress: 0.9, format: SaveFormat.JPEG });
+  return writePixels(enhancePixels(await readPixels(sample.uri)));
+}
+
+/**
+ * Applies the user's crop, optionally converts to a high-contrast grayscale
+ * image, and compresses until the result fits within MAX_IMAGE_SIZE.
+ */
+export async function preprocessImage(
+  image: PreprocessedImage,
+  options: PreprocessOptions = {}
+): Promise<PreprocessedImage> {
+  try {
+    // Cropped first, so only what is kept gets enhanced
+    const context = ImageManipulator.manipulate(image.uri);
+    if (options.crop) {
+      context.crop(options.crop);
+    }
+    let rendered = await context.renderAsync();
+    if (options.enhance) {
+      rendered = await ImageManipulator.manipulate(await enhance(rendered)).renderAsync();
+    }
+
+    for (const compress of COMPRESS_STEPS) {
+      const result = await rendered.saveAsync({ compress, format: SaveFormat.JPEG });
+      const size = await getFileSize(result.uri);
+      console.log('Preprocessed image:', { width: result.width, height: result.height, compress, size });
+
+      if (size <= MAX_IMAGE_SIZE) {
+        return { ...result, mimeType: 'image/jpeg', size };
+      }
+    }
+
+    throw new Error(`Image is still larger than ${formatBytes(MAX_IMAGE_SIZE)} after compression`);
+  } catch (error) {
+    console.error('Error preprocessing image:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,157 @@
+import JSZip from 'jszip';
+import { readBlob } from './files';
+
+export type ImportFormat = 'tex' | 'md' | 'mmd' | 'txt' | 'docx';
+
+const IMPORT_MIME_TYPES: Record<ImportFormat, string> = {
+  tex: 'text/x-tex',
+  md: 'text/markdown',
+  mmd: 'text/markdown',
+  txt: 'text/plain',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export function getImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension && extension in IMPORT_MIME_TYPES ? (extension as ImportFormat) : null;
+}
+
+export function getImportMimeType(filename: string): string | null {
+  const format = getImportFormat(filename);
+  return format ? IMPORT_MIME_TYPES[format] : null;
+}
+
+const normalizeLineEndings = (text: string) => text.replace(/\r\n?/g, '\n');
+
+// Replaces \command{...} with the result of `replacement`, respecting nested braces
+function replaceCommand(source: string, command: string, replacement: (arg: string) => string): string {
+  const pattern = new RegExp(`\\\\${command}\\*?\\{`, 'g');
+  let result = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    let depth = 1;
+    let end = match.index + match[0].length;
+    while (end < source.length && depth > 0) {
+      if (source[end] === '{' && source[end - 1] !== '\\') depth++;
+      if (source[end] === '}' && source[end - 1] !== '\\') depth--;
+      end++;
+    }
+    const arg = source.slice(match.index + match[0].length, end - 1);
+    result += source.slice(lastIndex, match.index) + replacement(arg);
+    lastIndex = end;
+    pattern.lastIndex = end;
+  }
+
+  return result + source.slice(lastIndex);
+}
+
+export function latexToMmd(source: string): string {
+  let text = normalizeLineEndings(source);
+
+  // Drop comments, but keep escaped percent signs
+  text = text.replace(/(^|[^\\])%.*$/gm, '$1');
+
+  const title = text.match(/\\title\{([^}]*)\}/)?.[1];
+  const body = text.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
+  if (body) {
+    text = body[1];
+  }
+
+  text = text
+    .replace(/\\maketitle/g, title ? `\\title{${title}}` : '')
+    .replace(/\\(usepackage|documentclass|pagestyle|thispagestyle|setlength|geometry)(\[[^\]]*\])?\{[^}]*\}/g, '')
+    .replace(/\\begin\{(equation|displaymath)\*?\}([\s\S]*?)\\end\{\1\*?\}/g, (_, __, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\begin\{(align|gather|multline)\*?\}([\s\S]*?)\\end\{\1\*?\}/g, (_, __, math) => `\n$$\n\\begin{aligned}\n${math.trim()}\n\\end{aligned}\n$$\n`)
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]*?)\\\)/g, (_, math) => `$${math.trim()}$`)
+    .replace(/\\begin\{(itemize|enumerate)\}(\[[^\]]*\])?/g, '\n')
+    .replace(/\\end\{(itemize|enumerate)\}/g, '\n')
+    .replace(/^\s*\\item(\[([^\]]*)\])?\s*/gm, (_, __, label) => (label ? `${label} ` : '- '))
+    .replace(/\\(newpage|clearpage|noindent|medskip|bigskip|smallskip|vfill|hfill)\b/g, '');
+
+  text = replaceCommand(text, 'section', arg => `\\section*{${arg}}`);
+  text = replaceCommand(text, 'subsection', arg => `\\subsection*{${arg}}`);
+  text = replaceCommand(text, 'textbf', arg => `**${arg}**`);
+  text = replaceCommand(text, 'textit', arg => `*${arg}*`);
+  text = replaceCommand(text, 'emph', arg => `*${arg}*`);
+
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Office math is flattened to its text runs, which keeps simple formulas readable
+function convertDocxRuns(xml: string): string {
+  return xml
+    .replace(/<m:oMath\b[^>]*>([\s\S]*?)<\/m:oMath>/g, (_, math) => {
+      const tex = Array.from(math.matchAll(/<m:t\b[^>]*>([\s\S]*?)<\/m:t>/g))
+        .map(match => (match as RegExpMatchArray)[1])
+        .join('');
+      return `<w:t>$${tex}$</w:t>`;
+    })
+    .replace(/<w:tab\/>/g, '<w:t>\t</w:t>')
+    .replace(/<w:br\/>/g, '<w:t>\n</w:t>')
+    .match(/<w:t\b[^>]*>[\s\S]*?<\/w:t>/g)
+    ?.map(run => decodeXml(run.replace(/<[^>]+>/g, '')))
+    .join('') ?? '';
+}
+
+export async function docxToMmd(base64Data: string): Promise<string> {
+  const zip = await JSZip.loadAsync(base64Data, { base64: true });
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('The DOCX file does not contain a document body');
+  }
+
+  const paragraphs = documentXml.match(/<w:p\b[^>]*>[\s\S]*?<\/w:p>/g) ?? [];
+
+  return paragraphs
+    .map(paragraph => {
+      const text = convertDocxRuns(paragraph).trim();
+      if (!text) return '';
+
+      const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? '';
+      if (/^Title$/i.test(style)) return `\\title{${text}}`;
+      if (/^Heading1$/i.test(style)) return `\\section*{${text}}`;
+      if (/^Heading[2-6]$/i.test(style)) return `\\subsection*{${text}}`;
+      if (/<w:numPr>/.test(paragraph)) return `- ${text}`;
+      return text;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export async function convertToMmd(filename: string, file: Blob): Promise<string> {
+  const format = getImportFormat(filename);
+
+  let mmd: string;
+  switch (format) {
+    case 'tex':
+      mmd = latexToMmd(await readBlob(file, 'text'));
+      break;
+    case 'md':
+    case 'mmd':
+    case 'txt':
+      mmd = normalizeLineEndings(await readBlob(file, 'text')).trim();
+      break;
+    case 'docx':
+      mmd = await docxToMmd(await readBlob(file, 'base64'));
+      break;
+    default:
+      throw new Error(`Unsupported import format: ${filename}`);
+  }
+
+  if (!mmd) {
+    throw new Error('The imported file does not contain any content');
+  }
+
+  return mmd;
+}
@@ -0,0 +1,133 @@
+import { ref, getDownloadURL, uploadBytes } from 'firebase/storage';
+import { storage } from './firebase';
+
+// Pixel rectangle on a page image
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutLine {
+  text: string;
+  region: Region;
+}
+
+export interface PageLayout {
+  page: number;
+  width: number;
+  height: number;
+  // Image of the whole page that regions refer to
+  imageUrl?: string;
+  lines: LayoutLine[];
+}
+
+// Where an extracted exercise sits in the uploaded original
+export interface ExerciseSource {
+  page: number;
+  imageUrl: string;
+  pageWidth: number;
+  pageHeight: number;
+  region: Region;
+}
+
+const MIN_MATCH_LENGTH = 4;
+const REGION_PADDING = 0.02;
+
+export function regionFromContour(contour: number[][]): Region | undefined {
+  if (contour.length === 0) return undefined;
+
+  const xs = contour.map(point => point[0]);
+  const ys = contour.map(point => point[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export function unionRegions(regions: Region[]): Region {
+  const x = Math.min(...regions.map(region => region.x));
+  const y = Math.min(...regions.map(region => region.y));
+  const right = Math.max(...regions.map(region => region.x + region.width));
+  const bottom = Math.max(...regions.map(region => region.y + region.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+// Math delimiters and whitespace differ between the MMD and line data
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[\s$\\{}]/g, '');
+
+/**
+ * Finds the page region whose lines make up `text`. The page that covers most
+ * of the text wins and the matched lines on it are merged into one region.
+ */
+export function findSource(text: string, layout: PageLayout[]): ExerciseSource | undefined {
+  const target = normalizeText(text);
+  if (!target) return undefined;
+
+  let best: { page: PageLayout; lines: LayoutLine[]; score: number } | null = null;
+
+  for (const page of layout) {
+    if (!page.imageUrl) continue;
+
+    const matched = page.lines.filter(line => {
+      const normalized = normalizeText(line.text);
+      return normalized.length >= MIN_MATCH_LENGTH && target.includes(normalized);
+    });
+    const score = matched.reduce((total, line) => total + normalizeText(line.text).length, 0);
+
+    if (matched.length > 0 && (!best || score > best.score)) {
+      best = { page, lines: matched, score };
+    }
+  }
+
+  if (!best) return undefined;
+
+  const { page, lines } = best;
+  const region = unionRegions(lines.map(line => line.region));
+  const padX = page.width * REGION_PADDING;
+  const padY = page.height * REGION_PADDING;
+  const x = Math.max(0, region.x - padX);
+  const y = Math.max(0, region.y - padY);
+
+  return {
+    page: page.page,
+    imageUrl: page.imageUrl!,
+    pageWidth: page.width,
+    pageHeight: page.height,
+    region: {
+      x,
+      y,
+      width: Math.min(page.width, region.x + region.width + padX) - x,
+      height: Math.min(page.height, region.y + region.height + padY) - y,
+    },
+  };
+}
+
+export function layoutPath(userId: string, documentId: string): string {
+  return `users/${userId}/layout/${documentId}.json`;
+}
+
+export async function saveLayout(userId: string, documentId: string, layout: PageLayout[]): Promise<string> {
+  try {
+    const path = layoutPath(userId, documentId);
+    const layoutBlob = new Blob([JSON.stringify(layout)], { type: 'application/json' });
+    await uploadBytes(ref(storage, path), layoutBlob);
+    return path;
+  } catch (error) {
+    console.error('Error saving layout:', error);
+    throw error;
+  }
+}
+
+// Documents uploaded before layouts were stored simply have none
+export async function loadLayout(userId: string, documentId: string): Promise<PageLayout[] | null> {
+  try {
+    const downloadURL = await getDownloadURL(ref(storage, layoutPath(userId, documentId)));
+    const response = await fetch(downloadURL);
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.log('No layout found for document:', documentId, error);
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import OpenAI from 'openai';
+
+/**
+ * Single entry point for language model calls. Any OpenAI-compatible API can
+ * serve them: set EXPO_PUBLIC_LLM_BASE_URL to use another provider, or the
+ * mock server (`npm run mock:llm`) for offline development and tests.
+ */
+export type LlmTask = 'analyze' | 'solve' | 'validate';
+
+export type LlmMessage = OpenAI.Chat.ChatCompletionMessageParam;
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResult<T> {
+  data: T;
+  usage: LlmUsage;
+  model: string;
+}
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  analyze: 'gpt-4o-mini',
+  solve: 'gpt-4o-mini',
+  validate: 'gpt-4',
+};
+
+// Expo only inlines environment variables that are accessed by their full name
+const MODEL_OVERRIDES: Record<LlmTask, string | undefined> = {
+  analyze: process.env.EXPO_PUBLIC_LLM_MODEL_ANALYZE,
+  solve: process.env.EXPO_PUBLIC_LLM_MODEL_SOLVE,
+  validate: process.env.EXPO_PUBLIC_LLM_MODEL_VALIDATE,
+};
+
+const BASE_URL = process.env.EXPO_PUBLIC_LLM_BASE_URL || undefined;
+const TIMEOUT_MS = Number(process.env.EXPO_PUBLIC_LLM_TIMEOUT_MS) || 120_000;
+const MAX_RETRIES = 2;
+
+const client = new OpenAI({
+  // A local stand-in needs no key, but the client refuses to start without one
+  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY || (BASE_URL ? 'mock' : undefined),
+  baseURL: BASE_URL,
+  timeout: TIMEOUT_MS,
+  maxRetries: MAX_RETRIES,
+  dangerouslyAllowBrowser: true,
+});
+
+export const EMPTY_USAGE: LlmUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+export function modelFor(task: LlmTask): string {
+  return MODEL_OVERRIDES[task] || DEFAULT_MODELS[task];
+}
+
+export function addUsage(...usages: LlmUsage[]): LlmUsage {
+  return usages.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  }), EMPTY_USAGE);
+}
+
+/**
+ * Sends a chat completion for a task and returns the raw text of the reply.
+ * Timeouts, rate limits and server errors are retried by the client.
+ */
+export async function completeJson(task: LlmTask, messages: LlmMessage[]): Promise<LlmResult<string | null>> {
+  const model = modelFor(task);
+  try {
+    const response = await client.chat.completions.create(
+      { model, messages, response_format: { type: 'json_object' } },
+      // Lets the mock server pick a canned response without parsing prompts
+      { headers: { 'X-LLM-Task': task } }
+    );
+
+    const usage: LlmUsage = {
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+      totalTokens: response.usage?.total_tokens ?? 0,
+    };
+    console.log('LLM usage:', task, model, usage);
+    return { data: response.choices[0]?.message?.content ?? null, usage, model };
+  } catch (error) {
+    console.error(`LLM ${task} request failed:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import { OcrError, OcrErrorCode, OcrPdfOptions, OcrProvider } from './ocr';
+import { DocumentPage, expandPageRanges, parsePageRanges } from './pages';
+
+// Canned recognition results so ingestion and grading can run without Mathpix
+const SAMPLE_PAGES: DocumentPage[] = [
+  {
+    number: 1,
+    content: `\\section*{Übungsblatt 1: Analysis}
+
+\\section*{Aufgabe 1}
+Berechnen Sie die Ableitung der folgenden Funktionen:
+a) $f(x)=x^{3}-2 x+1$
+b) $g(x)=e^{-x^{2}}$`,
+  },
+  {
+    number: 2,
+    content: `\\section*{Aufgabe 2}
+Bestimmen Sie das Integral
+$$
+\\int_{0}^{1} 2 x \\, d x
+$$`,
+  },
+  {
+    number: 3,
+    content: `\\section*{Aufgabe 3}
+Gegeben ist die Funktion $h(x)=\\frac{1}{x}$ für $x>0$.
+a) Bestimmen Sie $h^{\\prime}(x)$.
+b) Zeigen Sie, dass $h$ streng monoton fallend ist.`,
+  },
+];
+
+const SAMPLE_ANSWER_MMD = `$$
+f^{\\prime}(x)=3 x^{2}-2
+$$`;
+
+const SIMULATED_DURATION = 6000;
+
+const startedJobs = new Map<string, number>();
+
+function assertLocalJob(pdfId: string) {
+  if (!pdfId.startsWith('local-')) {
+    throw new OcrError(
+      OcrErrorCode.INVALID_CONTENT,
+      `Unknown local OCR job: ${pdfId}`,
+      'local'
+    );
+  }
+}
+
+export const localOcrProvider: OcrProvider = {
+  name: 'local',
+  recognizeImage: async (imageUrl: string) => {
+    console.log('Local OCR: recognizing image', imageUrl);
+    return {
+      mmd: SAMPLE_ANSWER_MMD,
+      text: SAMPLE_ANSWER_MMD,
+      confidence: 0.95,
+      lines: [{ text: '$f^{\\prime}(x)=3 x^{2}-2$', confidence: 0.95 }],
+    };
+  },
+  recognizePdf: async (pdfUrl: string, options?: OcrPdfOptions) => {
+    const pdfId = `local-${Date.now()}`;
+    console.log('Local OCR: recognizing PDF', pdfUrl, pdfId, options);
+    startedJobs.set(pdfId, Date.now());
+    return pdfId;
+  },
+  getPdfStatus: async (pdfId: string) => {
+    // Jobs restored after a restart are treated as finished
+    const startedAt = startedJobs.get(pdfId) ?? 0;
+    const percentDone = Math.min(100, ((Date.now() - startedAt) / SIMULATED_DURATION) * 100);
+
+    return {
+      state: percentDone >= 100 ? 'completed' : 'processing',
+      percentDone,
+      numPages: SAMPLE_PAGES.length,
+      numPagesCompleted: Math.floor((percentDone / 100) * SAMPLE_PAGES.length),
+    };
+  },
+  fetchMmd: async (pdfId: string) => {
+    assertLocalJob(pdfId);
+    startedJobs.delete(pdfId);
+    return SAMPLE_PAGES.map(page => page.content).join('\n\n');
+  },
+  fetchPages: async (pdfId: string, options?: OcrPdfOptions) => {
+    assertLocalJob(pdfId);
+    startedJobs.delete(pdfId);
+    const selectedPages = expandPageRanges(parsePageRanges(options?.pageRanges ?? ''));
+    return SAMPLE_PAGES.filter(
+      page => selectedPages.length === 0 || selectedPages.includes(page.number)
+    );
+  },
+};
@@ -0,0 +1,63 @@
+import katex from 'katex';
+
+export interface MathError {
+  // Offsets of the whole formula, delimiters included, in the checked text
+  start: number;
+  end: number;
+  line: number;
+  tex: string;
+  message: string;
+}
+
+// $$...$$, \[...\], \(...\) and single-line $...$
+const FORMULA_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+/**
+ * Parses every formula with KaTeX and reports the ones it rejects, plus a
+ * trailing unclosed `$$` which would otherwise swallow the rest of the text.
+ */
+export function findMathErrors(content: string): MathError[] {
+  const errors: MathError[] = [];
+  let lastEnd = 0;
+
+  for (const match of content.matchAll(FORMULA_PATTERN)) {
+    const start = match.index ?? 0;
+    const tex = match[1] ?? match[2] ?? match[3] ?? match[4];
+    lastEnd = start + match[0].length;
+
+    try {
+      katex.renderToString(tex, {
+        displayMode: match[1] !== undefined || match[2] !== undefined,
+        throwOnError: true,
+        macros: {
+          "\\f": "f(#1)",
+        },
+      });
+    } catch (error) {
+      errors.push({
+        start,
+        end: lastEnd,
+        line: lineAt(content, start),
+        tex: tex.trim(),
+        message: error instanceof katex.ParseError
+          ? error.message.replace(/^KaTeX parse error: /, '')
+          : String(error),
+      });
+    }
+  }
+
+  const unclosed = content.indexOf('$$', lastEnd);
+  if (unclosed >= 0) {
+    errors.push({
+      start: unclosed,
+      end: content.length,
+      line: lineAt(content, unclosed),
+      tex: content.slice(unclosed + 2, unclosed + 42).trim(),
+      message: 'Display formula is never closed with $$',
+    });
+  }
+
+  return errors;
+}
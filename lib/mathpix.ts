@@ -1,11 +1,37 @@
-import { storage } from './firebase';
-import { ref, listAll, getDownloadURL, uploadBytes } from 'firebase/storage';
-
-interface MathpixResponse {
-  text?: string;
-  mmd?: string;
+import {
+  OcrError,
+  OcrErrorCode,
+  OcrImageResult,
+  OcrPdfOptions,
+  OcrPdfStatus,
+  OcrProvider,
+} from './ocr';
+import { DocumentPage, expandPageRanges, parsePageRanges } from './pages';
+import { LayoutLine, regionFromContour } from './layout';
+
+interface MathpixPdfStatus {
+  status: string;
+  num_pages?: number;
+  num_pages_completed?: number;
+  percent_done?: number;
   error?: string;
-  pdf_id?: string;
+}
+
+interface MathpixLinesResponse {
+  pages: {
+    page: number;
+    page_width: number;
+    page_height: number;
+    lines: {
+      text: string;
+      region?: {
+        top_left_x: number;
+        top_left_y: number;
+        width: number;
+        height: number;
+      };
+    }[];
+  }[];
 }
 
 interface MathpixTextResponse {
@@ -14,6 +40,15 @@ interface MathpixTextResponse {
   latex_styled: string;
   confidence: number;
   confidence_rate: number;
+  image_width?: number;
+  image_height?: number;
+  line_data?: {
+    text: string;
+    type: string;
+    confidence?: number;
+    included?: boolean;
+    cnt?: number[][];
+  }[];
   error?: string;
 }
 
@@ -44,7 +79,6 @@ class MathpixError extends Error {
 }
 
 const MATHPIX_BASE_URL = 'https://api.mathpix.com/v3';
-const CONFIDENCE_THRESHOLD = 0.7;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000;
 
@@ -139,58 +173,113 @@ async function retryWithDelay<T>(
   );
 }
 
-async function waitForProcessing(pdfId: string): Promise<void> {
-  const maxAttempts = 30;
-  const delayMs = 10000;
-  
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      const response = await fetch(`${MATHPIX_BASE_URL}/pdf/${pdfId}`, {
-        headers: {
-          'app_id': process.env.EXPO_PUBLIC_MATHPIX_APP_ID!,
-          'app_key': process.env.EXPO_PUBLIC_MATHPIX_APP_KEY!,
-        },
-      });
-      
-      if (!response.ok) {
-        await handleMathpixResponse(response, '/pdf/status');
-      }
-      
-      const status = await response.json();
-      console.log('PDF processing status:', status);
-      
-      if (status.status === 'completed') {
-        return;
-      }
-      
-      if (status.status === 'error') {
-        throw new MathpixError(
-          MathpixErrorCode.PROCESSING_ERROR,
-          status.error || 'PDF processing failed',
-          status
-        );
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, delayMs));
-    } catch (error) {
-      if (error instanceof MathpixError) {
-        throw error;
-      }
+const ERROR_CODE_MAP: Record<MathpixErrorCode, OcrErrorCode> = {
+  [MathpixErrorCode.INVALID_CREDENTIALS]: OcrErrorCode.INVALID_CREDENTIALS,
+  [MathpixErrorCode.RATE_LIMIT_EXCEEDED]: OcrErrorCode.RATE_LIMITED,
+  [MathpixErrorCode.FILE_TOO_LARGE]: OcrErrorCode.FILE_TOO_LARGE,
+  [MathpixErrorCode.UNSUPPORTED_FORMAT]: OcrErrorCode.UNSUPPORTED_FORMAT,
+  [MathpixErrorCode.PROCESSING_ERROR]: OcrErrorCode.PROCESSING_ERROR,
+  [MathpixErrorCode.EMPTY_RESPONSE]: OcrErrorCode.EMPTY_RESULT,
+  [MathpixErrorCode.NETWORK_ERROR]: OcrErrorCode.NETWORK_ERROR,
+  [MathpixErrorCode.TIMEOUT]: OcrErrorCode.TIMEOUT,
+  [MathpixErrorCode.LOW_CONFIDENCE]: OcrErrorCode.LOW_CONFIDENCE,
+  [MathpixErrorCode.NO_MATH_DETECTED]: OcrErrorCode.NO_CONTENT_DETECTED,
+  [MathpixErrorCode.INVALID_CONTENT]: OcrErrorCode.INVALID_CONTENT,
+};
+
+function toOcrError(error: unknown, fallbackMessage: string): OcrError {
+  if (error instanceof OcrError) {
+    return error;
+  }
+  if (error instanceof MathpixError) {
+    return new OcrError(ERROR_CODE_MAP[error.code], error.message, 'mathpix', error.details);
+  }
+  return new OcrError(OcrErrorCode.PROCESSING_ERROR, fallbackMessage, 'mathpix', error);
+}
+
+function assertCredentials() {
+  if (!process.env.EXPO_PUBLIC_MATHPIX_APP_ID || !process.env.EXPO_PUBLIC_MATHPIX_APP_KEY) {
+    throw new MathpixError(
+      MathpixErrorCode.INVALID_CREDENTIALS,
+      'Mathpix credentials not configured'
+    );
+  }
+}
+
+async function submitPdf(storageUrl: string, options: OcrPdfOptions = {}): Promise<string> {
+  assertCredentials();
+
+  return retryWithDelay(async () => {
+    const response = await fetch(`${MATHPIX_BASE_URL}/pdf`, {
+      method: 'POST',
+      headers: {
+        'app_id': process.env.EXPO_PUBLIC_MATHPIX_APP_ID,
+        'app_key': process.env.EXPO_PUBLIC_MATHPIX_APP_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        url: storageUrl,
+        options_json: JSON.stringify({
+          math_inline_delimiters: ["$", "$"],
+          math_display_delimiters: ["$$", "$$"],
+          enable_tables_fallback: true,
+          conversion_formats: ["mmd"],
+          ...(options.pageRanges ? { page_ranges: options.pageRanges } : {}),
+        })
+      }),
+    });
+
+    if (!response.ok) {
+      await handleMathpixResponse(response, '/pdf');
+    }
+
+    const result = await response.json();
+    console.log('Mathpix API response:', result);
+
+    if (!result.pdf_id) {
       throw new MathpixError(
-        MathpixErrorCode.PROCESSING_ERROR,
-        'Error checking PDF status',
-        error
+        MathpixErrorCode.INVALID_CONTENT,
+        'No PDF ID received from Mathpix'
       );
     }
+
+    return result.pdf_id as string;
+  });
+}
+
+// Mathpix reports 'received' and 'split' before OCR of the pages starts
+async function fetchPdfStatus(pdfId: string): Promise<OcrPdfStatus> {
+  const response = await fetch(`${MATHPIX_BASE_URL}/pdf/${pdfId}`, {
+    headers: {
+      'app_id': process.env.EXPO_PUBLIC_MATHPIX_APP_ID!,
+      'app_key': process.env.EXPO_PUBLIC_MATHPIX_APP_KEY!,
+    },
+  });
+
+  if (!response.ok) {
+    await handleMathpixResponse(response, '/pdf/status');
   }
-  
-  throw new MathpixError(
-    MathpixErrorCode.TIMEOUT,
-    'PDF processing timeout'
-  );
+
+  const status: MathpixPdfStatus = await response.json();
+  const state =
+    status.status === 'completed'
+      ? 'completed'
+      : status.status === 'error'
+        ? 'error'
+        : status.status === 'received' || status.status === 'split'
+          ? 'queued'
+          : 'processing';
+
+  return {
+    state,
+    percentDone: status.percent_done,
+    numPages: status.num_pages,
+    numPagesCompleted: status.num_pages_completed,
+    error: status.error,
+  };
 }
 
-async function downloadMMD(pdfId: string, userId: string, filename: string): Promise<string> {
+async function downloadMMD(pdfId: string): Promise<string> {
   console.log('Downloading MMD for PDF ID:', pdfId);
   
   const response = await fetch(`${MATHPIX_BASE_URL}/pdf/${pdfId}.mmd`, {
@@ -212,88 +301,94 @@ async function downloadMMD(pdfId: string, userId: string, filename: string): Pro
     );
   }
   
-  const mmdStoragePath = `users/${userId}/mmd/${filename}`;
-  const mmdRef = ref(storage, mmdStoragePath);
-  const mmdBlob = new Blob([mmdContent], { type: 'text/markdown' });
-  await uploadBytes(mmdRef, mmdBlob);
-  
   return mmdContent;
 }
 
-export async function processWithMathpix(
-  storageUrl: string,
-  userId: string,
-  filename: string
-): Promise<MathpixResponse> {
-  console.log('Starting Mathpix processing:', { storageUrl, userId, filename });
-  
-  if (!process.env.EXPO_PUBLIC_MATHPIX_APP_ID || !process.env.EXPO_PUBLIC_MATHPIX_APP_KEY) {
-    throw new MathpixError(
-      MathpixErrorCode.INVALID_CREDENTIALS,
-      'Mathpix credentials not configured'
-    );
+type MathpixPage = MathpixLinesResponse['pages'][number];
+
+/**
+ * Cuts the converted MMD where each page's first line appears in it, so pages
+ * keep the tables, display math and paragraphs of the MMD output. Pages whose
+ * start can't be found are left joined to the page before.
+ */
+function splitMmdAtPages(mmd: string, pages: MathpixPage[]): string[] {
+  const starts = [0];
+  for (const page of pages.slice(1)) {
+    const from = starts[starts.length - 1];
+    const start = page.lines
+      .map(line => line.text.trim().slice(0, 60))
+      .filter(Boolean)
+      .slice(0, 3)
+      .map(text => mmd.indexOf(text, from))
+      .find(index => index > from);
+    starts.push(start ?? from);
   }
 
-  try {
-    if (/\.(jpg|jpeg|png)$/i.test(filename)) {
-      console.log('Processing image file with text recognition API');
-      return await retryWithDelay(() => processImageWithMathpix(storageUrl));
-    }
-
-    console.log('Processing PDF file with PDF API');
-    return await retryWithDelay(async () => {
-      const response = await fetch(`${MATHPIX_BASE_URL}/pdf`, {
-        method: 'POST',
-        headers: {
-          'app_id': process.env.EXPO_PUBLIC_MATHPIX_APP_ID,
-          'app_key': process.env.EXPO_PUBLIC_MATHPIX_APP_KEY,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          url: storageUrl,
-          options_json: JSON.stringify({
-            math_inline_delimiters: ["$", "$"],
-            math_display_delimiters: ["$$", "$$"],
-            enable_tables_fallback: true,
-            conversion_formats: ["mmd"]
-          })
-        }),
-      });
-
-      if (!response.ok) {
-        await handleMathpixResponse(response, '/pdf');
-      }
+  return starts.map((start, index) => {
+    const end = starts.slice(index + 1).find(next => next > start) ?? mmd.length;
+    return starts.indexOf(start) === index ? mmd.slice(start, end).trim() : '';
+  });
+}
 
-      const result = await response.json();
-      console.log('Mathpix API response:', result);
-      
-      if (!result.pdf_id) {
-        throw new MathpixError(
-          MathpixErrorCode.INVALID_CONTENT,
-          'No PDF ID received from Mathpix'
-        );
-      }
+async function downloadPages(pdfId: string, options: OcrPdfOptions = {}): Promise<DocumentPage[]> {
+  console.log('Downloading line data for PDF ID:', pdfId);
 
-      await waitForProcessing(result.pdf_id);
-      const mmd = await downloadMMD(result.pdf_id, userId, filename);
+  const response = await fetch(`${MATHPIX_BASE_URL}/pdf/${pdfId}.lines.json`, {
+    headers: {
+      'app_id': process.env.EXPO_PUBLIC_MATHPIX_APP_ID!,
+      'app_key': process.env.EXPO_PUBLIC_MATHPIX_APP_KEY!,
+    },
+  });
 
-      return { ...result, mmd };
-    });
-  } catch (error) {
-    if (error instanceof MathpixError) {
-      throw error;
-    }
-    throw new MathpixError(
-      MathpixErrorCode.PROCESSING_ERROR,
-      'Mathpix processing error',
-      error
-    );
+  if (!response.ok) {
+    await handleMathpixResponse(response, '/pdf/lines');
   }
+
+  const result: MathpixLinesResponse = await response.json();
+  // Line data only gives page numbers and layout; the text comes from the MMD conversion
+  const mmd = await downloadMMD(pdfId);
+  const contents = splitMmdAtPages(mmd, result.pages);
+  const selectedPages = expandPageRanges(parsePageRanges(options.pageRanges ?? ''));
+  const pageNumbersAreOriginal = result.pages.every(
+    page => selectedPages.length === 0 || selectedPages.includes(page.page)
+  );
+
+  // Without original numbering, map the n-th converted page to the n-th selected page
+  return result.pages.map((page, index) => {
+    const number = pageNumbersAreOriginal ? page.page : selectedPages[index] ?? page.page;
+    const lines: LayoutLine[] = page.lines
+      .filter(line => line.region)
+      .map(line => ({
+        text: line.text,
+        region: {
+          x: line.region!.top_left_x,
+          y: line.region!.top_left_y,
+          width: line.region!.width,
+          height: line.region!.height,
+        },
+      }));
+
+    return {
+      number,
+      content: contents[index],
+      layout: {
+        page: number,
+        width: page.page_width,
+        height: page.page_height,
+        // Mathpix serves rendered pages of converted PDFs through its crop CDN
+        imageUrl: `https://cdn.mathpix.com/cropped/${pdfId}-${index + 1}.jpg`
+          + `?height=${page.page_height}&width=${page.page_width}&top_left_y=0&top_left_x=0`,
+        lines,
+      },
+    };
+  });
 }
 
-async function processImageWithMathpix(imageUrl: string): Promise<MathpixResponse> {
+async function processImageWithMathpix(imageUrl: string): Promise<OcrImageResult> {
   console.log('Processing image with Mathpix text recognition:', imageUrl);
 
+  assertCredentials();
+
   try {
     console.log('Sending request to Mathpix text API...');
     const response = await fetch(`${MATHPIX_BASE_URL}/text`, {
@@ -310,6 +405,7 @@ async function processImageWithMathpix(imageUrl: string): Promise<MathpixRespons
         math_display_delimiters: ["$$", "$$"],
         rm_spaces: true,
         include_line_breaks: true,
+        include_line_data: true,
         include_asciimath: true,
         numbers_default_to_math: true,
         enable_spell_check: true,
@@ -339,14 +435,6 @@ async function processImageWithMathpix(imageUrl: string): Promise<MathpixRespons
       );
     }
 
-    if (result.confidence < CONFIDENCE_THRESHOLD) {
-      throw new MathpixError(
-        MathpixErrorCode.LOW_CONFIDENCE,
-        `Low confidence in text recognition: ${result.confidence}`,
-        { confidence: result.confidence }
-      );
-    }
-
     if (!result.text && !result.latex_styled) {
       throw new MathpixError(
         MathpixErrorCode.NO_MATH_DETECTED,
@@ -374,6 +462,16 @@ async function processImageWithMathpix(imageUrl: string): Promise<MathpixRespons
     return {
       mmd,
       text: result.text,
+      confidence: result.confidence,
+      lines: (result.line_data ?? [])
+        .filter(line => line.included !== false && line.text)
+        .map(line => ({
+          text: line.text,
+          confidence: line.confidence,
+          region: line.cnt ? regionFromContour(line.cnt) : undefined,
+        })),
+      width: result.image_width,
+      height: result.image_height,
     };
   } catch (error) {
     if (error instanceof MathpixError) {
@@ -387,4 +485,43 @@ async function processImageWithMathpix(imageUrl: string): Promise<MathpixRespons
   }
 }
 
-export { processWithMathpix, MathpixError, MathpixErrorCode }
\ No newline at end of file
+export const mathpixProvider: OcrProvider = {
+  name: 'mathpix',
+  recognizeImage: async (imageUrl: string) => {
+    try {
+      return await retryWithDelay(() => processImageWithMathpix(imageUrl));
+    } catch (error) {
+      throw toOcrError(error, 'Mathpix text recognition error');
+    }
+  },
+  recognizePdf: async (pdfUrl: string, options?: OcrPdfOptions) => {
+    try {
+      return await submitPdf(pdfUrl, options);
+    } catch (error) {
+      throw toOcrError(error, 'Mathpix processing error');
+    }
+  },
+  getPdfStatus: async (pdfId: string) => {
+    try {
+      return await retryWithDelay(() => fetchPdfStatus(pdfId));
+    } catch (error) {
+      throw toOcrError(error, 'Error checking PDF status');
+    }
+  },
+  fetchMmd: async (pdfId: string) => {
+    try {
+      return await retryWithDelay(() => downloadMMD(pdfId));
+    } catch (error) {
+      throw toOcrError(error, 'Error downloading MMD');
+    }
+  },
+  fetchPages: async (pdfId: string, options?: OcrPdfOptions) => {
+    try {
+      return await retryWithDelay(() => downloadPages(pdfId, options));
+    } catch (error) {
+      throw toOcrError(error, 'Error downloading page data');
+    }
+  },
+};
+
+export { MathpixError, MathpixErrorCode };
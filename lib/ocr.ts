@@ -0,0 +1,183 @@
+import { mathpixProvider } from './mathpix';
+import { localOcrProvider } from './localOcr';
+import { DocumentPage } from './pages';
+import { Region } from './layout';
+
+export enum OcrErrorCode {
+  INVALID_CREDENTIALS = 'invalid_credentials',
+  RATE_LIMITED = 'rate_limited',
+  FILE_TOO_LARGE = 'file_too_large',
+  UNSUPPORTED_FORMAT = 'unsupported_format',
+  PROCESSING_ERROR = 'processing_error',
+  EMPTY_RESULT = 'empty_result',
+  NETWORK_ERROR = 'network_error',
+  TIMEOUT = 'timeout',
+  LOW_CONFIDENCE = 'low_confidence',
+  NO_CONTENT_DETECTED = 'no_content_detected',
+  INVALID_CONTENT = 'invalid_content',
+  CANCELLED = 'cancelled',
+}
+
+export class OcrError extends Error {
+  code: OcrErrorCode;
+  provider: string;
+  details?: any;
+
+  constructor(code: OcrErrorCode, message: string, provider: string, details?: any) {
+    super(message);
+    this.name = 'OcrError';
+    this.code = code;
+    this.provider = provider;
+    this.details = details;
+  }
+}
+
+export type ProcessingPhase =
+  | 'hashing'
+  | 'uploading'
+  | 'converting'
+  | 'queued'
+  | 'ocr'
+  | 'downloading'
+  | 'saving';
+
+export interface ProcessingProgress {
+  phase: ProcessingPhase;
+  percentDone?: number;
+  numPages?: number;
+  numPagesCompleted?: number;
+  etaSeconds?: number;
+}
+
+export type ProgressCallback = (progress: ProcessingProgress) => void;
+
+export interface OcrLine {
+  text: string;
+  confidence?: number;
+  region?: Region;
+}
+
+export interface OcrImageResult {
+  mmd: string;
+  text?: string;
+  confidence?: number;
+  lines?: OcrLine[];
+  // Image size that line regions refer to
+  width?: number;
+  height?: number;
+}
+
+export type OcrPdfState = 'queued' | 'processing' | 'completed' | 'error';
+
+export interface OcrPdfStatus {
+  state: OcrPdfState;
+  percentDone?: number;
+  numPages?: number;
+  numPagesCompleted?: number;
+  error?: string;
+}
+
+export interface OcrPdfOptions {
+  // Mathpix-style page ranges such as "12-15,20"
+  pageRanges?: string;
+}
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  recognizeImage: (imageUrl: string) => Promise<OcrImageResult>;
+  // Starts recognition of a PDF and returns the provider's id for it
+  recognizePdf: (pdfUrl: string, options?: OcrPdfOptions) => Promise<string>;
+  getPdfStatus: (pdfId: string) => Promise<OcrPdfStatus>;
+  fetchMmd: (pdfId: string) => Promise<string>;
+  // Recognized content split per page, numbered as in the original PDF
+  fetchPages: (pdfId: string, options?: OcrPdfOptions) => Promise<DocumentPage[]>;
+}
+
+export type OcrProviderName = 'mathpix' | 'local';
+
+interface WaitOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+const PDF_POLL_ATTEMPTS = 60;
+const PDF_POLL_DELAY = 5000;
+
+export function getOcrProvider(name?: OcrProviderName): OcrProvider {
+  const configured = name ?? process.env.EXPO_PUBLIC_OCR_PROVIDER;
+
+  switch (configured) {
+    case 'local':
+      return localOcrProvider;
+    default:
+      return mathpixProvider;
+  }
+}
+
+function throwIfCancelled(provider: OcrProvider, signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new OcrError(OcrErrorCode.CANCELLED, 'Processing was cancelled', provider.name);
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+function toProgress(status: OcrPdfStatus, startedAt: number): ProcessingProgress {
+  const percentDone = status.percentDone ?? 0;
+
+  let etaSeconds: number | undefined;
+  if (percentDone > 0 && percentDone < 100) {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    etaSeconds = Math.round((elapsedSeconds * (100 - percentDone)) / percentDone);
+  }
+
+  return {
+    phase: status.state === 'queued' || percentDone === 0 ? 'queued' : 'ocr',
+    percentDone,
+    numPages: status.numPages,
+    numPagesCompleted: status.numPagesCompleted,
+    etaSeconds,
+  };
+}
+
+export async function waitForPdf(
+  provider: OcrProvider,
+  pdfId: string,
+  options: WaitOptions = {}
+): Promise<void> {
+  const { signal, onProgress } = options;
+  const startedAt = Date.now();
+
+  for (let attempt = 0; attempt < PDF_POLL_ATTEMPTS; attempt++) {
+    throwIfCancelled(provider, signal);
+
+    const status = await provider.getPdfStatus(pdfId);
+    console.log('PDF processing status:', status);
+    onProgress?.(toProgress(status, startedAt));
+
+    if (status.state === 'completed') {
+      return;
+    }
+
+    if (status.state === 'error') {
+      throw new OcrError(
+        OcrErrorCode.PROCESSING_ERROR,
+        status.error || 'PDF processing failed',
+        provider.name,
+        status
+      );
+    }
+
+    await delay(PDF_POLL_DELAY, signal);
+  }
+
+  throw new OcrError(OcrErrorCode.TIMEOUT, 'PDF processing timeout', provider.name);
+}
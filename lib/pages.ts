@@ -0,0 +1,81 @@
+import { PageLayout } from './layout';
+
+export interface DocumentPage {
+  number: number;
+  content: string;
+  layout?: PageLayout;
+}
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+const PAGE_MARKER_PATTERN = /^<!-- page (\d+) -->$/gm;
+
+export function pageMarker(pageNumber: number): string {
+  return `<!-- page ${pageNumber} -->`;
+}
+
+export function joinPages(pages: DocumentPage[]): string {
+  return pages
+    .map(page => `${pageMarker(page.number)}\n\n${page.content.trim()}`)
+    .join('\n\n');
+}
+
+// Content without markers is returned as an empty list rather than one page,
+// so callers can tell documents without page information apart
+export function splitPages(content: string): DocumentPage[] {
+  const markers = Array.from(content.matchAll(PAGE_MARKER_PATTERN));
+
+  return markers.map((marker, index) => {
+    const start = marker.index! + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index! : content.length;
+    return {
+      number: parseInt(marker[1], 10),
+      content: content.slice(start, end).trim(),
+    };
+  });
+}
+
+export function stripPageMarkers(content: string): string {
+  return content.replace(PAGE_MARKER_PATTERN, '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export function parsePageRanges(input: string): PageRange[] {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  return trimmed.split(',').map(part => {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid page range "${part.trim()}". Use e.g. 12-15, 20`);
+    }
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range "${part.trim()}"`);
+    }
+
+    return { start, end };
+  });
+}
+
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges
+    .map(range => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`))
+    .join(',');
+}
+
+export function expandPageRanges(ranges: PageRange[]): number[] {
+  const pages = new Set<number>();
+  ranges.forEach(range => {
+    for (let page = range.start; page <= range.end; page++) {
+      pages.add(page);
+    }
+  });
+  return Array.from(pages).sort((a, b) => a - b);
+}
@@ -0,0 +1,296 @@
+import { DocumentRecord, fetchDocumentContent, getCachedDocumentRecords } from './documents';
+import { Exercise, getCachedExercises } from './exercises';
+import { ExerciseSolution, fetchSolutions } from './solutions';
+import { getCachedContent, getCachedItems, isOnline } from './sync';
+import { isTrashed } from './trash';
+import { splitPages } from './pages';
+
+export type SearchHitKind = 'document' | 'exercise' | 'solution';
+
+// Where a hit opens: a document page, or a sub-exercise of an exercise set
+export interface SearchTarget {
+  documentId?: string;
+  page?: number;
+  exerciseId?: string;
+  subExerciseIndex?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  kind: SearchHitKind;
+  title: string;
+  snippet: string;
+  score: number;
+  target: SearchTarget;
+}
+
+interface IndexEntry {
+  id: string;
+  kind: SearchHitKind;
+  title: string;
+  text: string;
+  compact: string;
+  words: Set<string>;
+  target: SearchTarget;
+}
+
+export interface SearchIndex {
+  entries: IndexEntry[];
+  documents: DocumentRecord[];
+  exercises: Exercise[];
+}
+
+const SNIPPET_LENGTH = 160;
+const CHUNK_LENGTH = 800;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'that', 'this', 'with', 'of', 'in', 'on', 'for', 'to', 'is',
+  'der', 'die', 'das', 'und', 'mit', 'ein', 'eine', 'von', 'im',
+]);
+
+// Commands that are also searched for by name, e.g. "integral"
+const COMMAND_WORDS: Record<string, string> = {
+  int: 'integral',
+  iint: 'integral',
+  oint: 'integral',
+  sum: 'sum',
+  prod: 'product',
+  lim: 'limit',
+  sqrt: 'sqrt',
+  infty: 'infinity',
+};
+
+/**
+ * Rewrites LaTeX into a canonical plain form so equivalent spellings match:
+ * `\frac{a}{b}`, `\dfrac a b` and `a/b` all become `a/b`, spacing commands and
+ * `\left`/`\right` disappear and the remaining commands lose their backslash.
+ */
+export function normalizeLatex(text: string): string {
+  let result = text
+    .replace(/\\[()[\]]/g, ' ')
+    .replace(/\$/g, ' ')
+    .replace(/\\(left|right|displaystyle|textstyle|big|Big|bigg|Bigg)(?![a-zA-Z])/g, '')
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/\\(mathrm|mathit|mathbf|text|textrm|operatorname)\s*\{([^{}]*)\}/g, '$2')
+    .replace(/\\sqrt\s*\{([^{}]*)\}/g, 'sqrt($1)');
+
+  // Nested fractions are resolved from the inside out
+  let previous;
+  do {
+    previous = result;
+    result = result.replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, '($1)/($2)');
+  } while (result !== previous);
+
+  return result
+    .replace(/\\[dt]?frac\s*(\w)\s*(\w)/g, '$1/$2')
+    .replace(/\\(cdot|times|ast)(?![a-zA-Z])/g, '*')
+    .replace(/\\div(?![a-zA-Z])/g, '/')
+    .replace(/\\(leq|le)(?![a-zA-Z])/g, '<=')
+    .replace(/\\(geq|ge)(?![a-zA-Z])/g, '>=')
+    .replace(/\\(neq|ne)(?![a-zA-Z])/g, '!=')
+    .replace(/\\([a-zA-Z]+)/g, (_, command: string) => ` ${COMMAND_WORDS[command] ?? command} `);
+}
+
+// Whitespace and grouping are dropped, so `e^{-x^2}` and `e^(-x^2)` compare equal
+function compact(text: string): string {
+  return normalizeLatex(text).toLowerCase().replace(/[\s{}()]/g, '');
+}
+
+function words(text: string): string[] {
+  return normalizeLatex(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+}
+
+function createEntry(
+  id: string,
+  kind: SearchHitKind,
+  title: string,
+  text: string,
+  target: SearchTarget
+): IndexEntry {
+  return {
+    id,
+    kind,
+    title,
+    text,
+    compact: compact(`${title} ${text}`),
+    words: new Set(words(`${title} ${text}`)),
+    target,
+  };
+}
+
+// Long pages are split so hits point at a passage rather than a whole page
+function chunk(content: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of content.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function documentEntries(record: DocumentRecord, content: string): IndexEntry[] {
+  const pages = splitPages(content);
+  const sections = pages.length > 0 ? pages : [{ number: undefined, content }];
+
+  return sections.flatMap(section =>
+    chunk(section.content).map((text, index) =>
+      createEntry(
+        `document-${record.id}-${section.number ?? 0}-${index}`,
+        'document',
+        record.title,
+        text,
+        { documentId: record.id, page: section.number }
+      )
+    )
+  );
+}
+
+function exerciseEntries(exercise: Exercise): IndexEntry[] {
+  return exercise.subExercises.map((subExercise, index) =>
+    createEntry(
+      `exercise-${exercise.id}-${subExercise.id}`,
+      'exercise',
+      `${exercise.title} · ${subExercise.originalNumber}`,
+      `${subExercise.question}\n\n${subExercise.correctAnswer ?? ''}`,
+      { exerciseId: exercise.id, subExerciseIndex: index }
+    )
+  );
+}
+
+function solutionEntry(exercise: Exercise, solution: ExerciseSolution): IndexEntry | null {
+  const index = exercise.subExercises.findIndex(sub => sub.id === solution.subExerciseId);
+  if (index < 0) return null;
+
+  const text = [
+    ...solution.steps.flatMap(step => [step.description, step.explanation, step.math ?? '']),
+    ...solution.hints,
+    solution.finalAnswer,
+  ].filter(Boolean).join('\n');
+
+  return createEntry(
+    `solution-${exercise.id}-${solution.subExerciseId}`,
+    'solution',
+    `Solution · ${exercise.title} · ${exercise.subExercises[index].originalNumber}`,
+    text,
+    { exerciseId: exercise.id, subExerciseIndex: index }
+  );
+}
+
+/**
+ * Builds the index from the local cache so search works offline. When online,
+ * document content and solutions that were never opened are downloaded first,
+ * which also caches them for later offline searches.
+ */
+export async function buildSearchIndex(userId: string): Promise<SearchIndex> {
+  const online = await isOnline();
+  const records = await getCachedDocumentRecords(userId);
+  const trashedIds = records.filter(isTrashed).map(record => record.id);
+  const documents = records.filter(record => record.state === 'ready' && !isTrashed(record));
+  const exercises = (await getCachedExercises(userId))
+    .filter(exercise => !trashedIds.includes(exercise.documentId ?? exercise.id));
+
+  const entries: IndexEntry[] = [];
+
+  for (const record of documents) {
+    let content = (await getCachedContent(userId, record.id))?.content;
+    if (!content && online) {
+      try {
+        content = (await fetchDocumentContent(userId, record)).content;
+      } catch (error) {
+        console.error('Error loading document for search:', record.id, error);
+      }
+    }
+    entries.push(createEntry(`title-${record.id}`, 'document', record.title, '', { documentId: record.id }));
+    if (content) {
+      entries.push(...documentEntries(record, content));
+    }
+  }
+
+  for (const exercise of exercises) {
+    entries.push(...exerciseEntries(exercise));
+
+    const solutions = online
+      ? await fetchSolutions(userId, exercise.id)
+      : await getCachedItems<ExerciseSolution>(userId, 'solutions', `${exercise.id}/`);
+    solutions.forEach(solution => {
+      const entry = solutionEntry(exercise, solution);
+      if (entry) entries.push(entry);
+    });
+  }
+
+  console.log('Built search index entries:', entries.length);
+  return { entries, documents, exercises };
+}
+
+function snippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const position = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, position - SNIPPET_LENGTH / 3);
+  const excerpt = flat.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${excerpt}${start + SNIPPET_LENGTH < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Ranks entries against a query. Math in the query (between `$` signs, or the
+ * whole query when it contains LaTeX) has to appear in normalized form; plain
+ * words count by how many of them an entry contains, with prefix matching.
+ */
+export function search(index: SearchIndex, query: string, limit = 30): SearchHit[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const mathParts = Array.from(trimmed.matchAll(/\$([^$]+)\$/g)).map(match => compact(match[1]));
+  const textPart = trimmed.replace(/\$[^$]+\$/g, ' ');
+  const queryWords = words(textPart);
+  const wholeQuery = compact(trimmed);
+
+  const hits: SearchHit[] = [];
+  for (const entry of index.entries) {
+    let score = 0;
+
+    if (wholeQuery.length >= 2 && entry.compact.includes(wholeQuery)) {
+      score += 10;
+    }
+
+    const matchedMath = mathParts.filter(part => part && entry.compact.includes(part)).length;
+    if (mathParts.length > 0 && matchedMath === 0 && score === 0) continue;
+    score += matchedMath * 8;
+
+    const entryWords = Array.from(entry.words);
+    const matchedWords = queryWords.filter(word =>
+      entry.words.has(word) || entryWords.some(entryWord => entryWord.startsWith(word))
+    );
+    // Word-only queries need at least half of their words to match
+    if (score === 0 && matchedWords.length < Math.ceil(queryWords.length / 2)) continue;
+    score += queryWords.length > 0 ? (matchedWords.length / queryWords.length) * 5 : 0;
+
+    if (score === 0) continue;
+    if (queryWords.some(word => entry.title.toLowerCase().includes(word))) {
+      score += 2;
+    }
+
+    hits.push({
+      id: entry.id,
+      kind: entry.kind,
+      title: entry.title,
+      snippet: snippet(entry.text || entry.title, [...matchedWords, trimmed.toLowerCase()]),
+      score,
+      target: entry.target,
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CONFIDENCE_THRESHOLD_KEY = 'ocrConfidenceThreshold';
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+export async function getConfidenceThreshold(): Promise<number> {
+  try {
+    const stored = await AsyncStorage.getItem(CONFIDENCE_THRESHOLD_KEY);
+    const value = stored ? parseFloat(stored) : NaN;
+    return Number.isFinite(value) ? value : DEFAULT_CONFIDENCE_THRESHOLD;
+  } catch (error) {
+    console.error('Error loading confidence threshold:', error);
+    return DEFAULT_CONFIDENCE_THRESHOLD;
+  }
+}
+
+export async function setConfidenceThreshold(threshold: number): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CONFIDENCE_THRESHOLD_KEY, threshold.toString());
+  } catch (error) {
+    console.error('Error saving confidence threshold:', error);
+    throw error;
+  }
+}
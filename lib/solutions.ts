@@ -1,11 +1,7 @@
 import { db } from './firebase';
-import { collection, doc, setDoc, getDocs, writeBatch } from 'firebase/firestore';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+import { collection, doc, getDocs, writeBatch } from 'firebase/firestore';
+import { getCachedItems, mergeRemoteItems, queueWrite } from './sync';
+import { LlmResult, completeJson } from './llm';
 
 export interface SolutionStep {
   number: number;
@@ -60,37 +56,37 @@ Format your response EXACTLY as follows:
   "finalAnswer": "The complete final answer in KaTeX format"
 }`;
 
-export async function generateSolution(exerciseContent: string): Promise<ExerciseSolution | null> {
+export async function generateSolution(exerciseContent: string): Promise<LlmResult<ExerciseSolution>> {
   try {
     console.log('Generating solution for:', exerciseContent);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: "You are a precise mathematics tutor. Your solutions should be clear, step-by-step, and mathematically accurate. Structure your response with steps, hints, and a final answer. ALWAYS preserve mathematical notation exactly as given and use proper KaTeX formatting with $$ for display math and $ for inline math. Give your answer as json so it can be displayed in an application properly"
-        },
-        {
-          role: "user",
-          content: `${SOLUTION_PROMPT}\n\nExercise to solve:\n${exerciseContent}`
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
+    const { data: text, usage, model } = await completeJson('solve', [
+      {
+        role: "system",
+        content: "You are a precise mathematics tutor. Your solutions should be clear, step-by-step, and mathematically accurate. Structure your response with steps, hints, and a final answer. ALWAYS preserve mathematical notation exactly as given and use proper KaTeX formatting with $$ for display math and $ for inline math. Give your answer as json so it can be displayed in an application properly"
+      },
+      {
+        role: "user",
+        content: `${SOLUTION_PROMPT}\n\nExercise to solve:\n${exerciseContent}`
+      }
+    ]);
 
-    if (!response.choices[0]?.message?.content) {
+    if (!text) {
       throw new Error('No solution generated');
     }
 
-    const parsedResponse = JSON.parse(response.choices[0].message.content);
+    const parsedResponse = JSON.parse(text);
     console.log('Generated solution:', parsedResponse);
 
     return {
-      ...parsedResponse,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    } as ExerciseSolution;
+      data: {
+        ...parsedResponse,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      } as ExerciseSolution,
+      usage,
+      model,
+    };
   } catch (error) {
     console.error('Error generating solution:', error);
     throw error;
@@ -106,17 +102,11 @@ export async function saveSolution(
   try {
     console.log('Saving solution:', { userId, exerciseId, subExerciseId });
     
-    const solutionRef = doc(
-      collection(db, 'users', userId, 'exercises', exerciseId, 'solutions'),
-      subExerciseId
-    );
-    
-    await setDoc(solutionRef, {
+    await queueWrite(userId, 'solutions', `${exerciseId}/${subExerciseId}`, {
       ...solution,
       exerciseId,
       subExerciseId,
       createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
     });
   } catch (error) {
     console.error('Error saving solution:', error);
@@ -166,12 +156,17 @@ export async function fetchSolutions(
     );
     const solutionsSnapshot = await getDocs(solutionsRef);
     
-    return solutionsSnapshot.docs.map(doc => ({
-      ...doc.data(),
-      subExerciseId: doc.id,
-    })) as ExerciseSolution[];
+    return await mergeRemoteItems<ExerciseSolution>(
+      userId,
+      'solutions',
+      solutionsSnapshot.docs.map(doc => ({
+        key: `${exerciseId}/${doc.id}`,
+        data: { ...doc.data(), subExerciseId: doc.id } as ExerciseSolution,
+      })),
+      `${exerciseId}/`
+    );
   } catch (error) {
-    console.error('Error fetching solutions:', error);
-    throw error;
+    console.error('Error fetching solutions, using cached copies:', error);
+    return getCachedItems<ExerciseSolution>(userId, 'solutions', `${exerciseId}/`);
   }
 }
\ No newline at end of file
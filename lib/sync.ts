@@ -0,0 +1,371 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { deleteField, doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+
+export type SyncCollection = 'documents' | 'exercises' | 'solutions' | 'attempts' | 'folders';
+
+export type SyncState = 'synced' | 'pending' | 'conflict' | 'error';
+
+export interface CachedItem<T = any> {
+  data: T;
+  state: SyncState;
+  updatedAt: string;
+}
+
+interface OutboxEntry {
+  collection: SyncCollection;
+  key: string;
+  data: any;
+  updatedAt: string;
+  // Partial updates only write their fields; `deleted` lists fields to remove
+  merge?: boolean;
+  deleted?: string[];
+}
+
+interface SyncCache {
+  // Keyed by `${collection}/${key}`
+  items: Record<string, CachedItem>;
+  outbox: OutboxEntry[];
+}
+
+interface CachedContent {
+  content: string;
+  updatedAt: string;
+}
+
+type SyncStatesListener = (states: Record<string, SyncState>) => void;
+
+// Stored under separate keys, since Android limits the size of a single
+// AsyncStorage entry: a large document can't make the queued writes unreadable
+const SYNC_ITEMS_STORAGE_KEY = 'sync_items';
+const SYNC_OUTBOX_STORAGE_KEY = 'sync_outbox';
+// MMD content of opened documents, one entry per document
+const SYNC_CONTENT_STORAGE_KEY = 'sync_content';
+const REQUEST_TIMEOUT = 15000;
+
+const caches = new Map<string, SyncCache>();
+const flushing = new Set<string>();
+const listeners = new Set<SyncStatesListener>();
+
+export const itemKey = (collection: SyncCollection, key: string) => `${collection}/${key}`;
+
+// Solutions and attempts live below their exercise, so their keys are "exerciseId/id"
+function firestorePath(collection: SyncCollection, key: string): string[] {
+  const [parent, child] = key.split('/');
+  switch (collection) {
+    case 'documents':
+      return ['documents', key];
+    case 'exercises':
+      return ['exercises', key];
+    case 'folders':
+      return ['folders', key];
+    case 'solutions':
+      return ['exercises', parent, 'solutions', child];
+    case 'attempts':
+      return ['exercises', parent, 'attempts', child];
+  }
+}
+
+const contentKey = (userId: string, documentId: string) => `${SYNC_CONTENT_STORAGE_KEY}_${userId}_${documentId}`;
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return fallback;
+  }
+}
+
+async function loadCache(userId: string): Promise<SyncCache> {
+  const loaded = caches.get(userId);
+  if (loaded) return loaded;
+
+  const cache: SyncCache = {
+    items: await readJson(`${SYNC_ITEMS_STORAGE_KEY}_${userId}`, {}),
+    outbox: await readJson(`${SYNC_OUTBOX_STORAGE_KEY}_${userId}`, []),
+  };
+  caches.set(userId, cache);
+  return cache;
+}
+
+async function persistCache(userId: string, cache: SyncCache): Promise<void> {
+  // Written one by one, so a failing items entry doesn't take the outbox with it
+  try {
+    await AsyncStorage.setItem(`${SYNC_OUTBOX_STORAGE_KEY}_${userId}`, JSON.stringify(cache.outbox));
+  } catch (error) {
+    console.error('Error saving sync outbox:', error);
+  }
+  try {
+    await AsyncStorage.setItem(`${SYNC_ITEMS_STORAGE_KEY}_${userId}`, JSON.stringify(cache.items));
+  } catch (error) {
+    console.error('Error saving sync cache:', error);
+  }
+
+  const states = Object.fromEntries(
+    Object.entries(cache.items).map(([key, item]) => [key, item.state])
+  );
+  listeners.forEach(listener => listener(states));
+}
+
+export function onSyncStatesChanged(listener: SyncStatesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getSyncStates(userId: string): Promise<Record<string, SyncState>> {
+  const cache = await loadCache(userId);
+  return Object.fromEntries(
+    Object.entries(cache.items).map(([key, item]) => [key, item.state])
+  );
+}
+
+export async function isOnline(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+export async function getCachedItems<T>(
+  userId: string,
+  collection: SyncCollection,
+  prefix = ''
+): Promise<T[]> {
+  const cache = await loadCache(userId);
+  const start = itemKey(collection, prefix);
+  return Object.entries(cache.items)
+    .filter(([key]) => key.startsWith(start))
+    .map(([, item]) => item.data as T);
+}
+
+/**
+ * Stores freshly fetched server data in the cache. Items with local changes
+ * that haven't been written yet are kept as they are; the outbox decides
+ * about them when it is flushed. Synced items that no longer exist on the
+ * server are dropped. Returns the merged items.
+ */
+export async function mergeRemoteItems<T extends { updatedAt?: string }>(
+  userId: string,
+  collection: SyncCollection,
+  remote: { key: string; data: T }[],
+  prefix = ''
+): Promise<T[]> {
+  const cache = await loadCache(userId);
+  const start = itemKey(collection, prefix);
+  const remoteKeys = new Set(remote.map(item => itemKey(collection, item.key)));
+
+  Object.entries(cache.items).forEach(([key, item]) => {
+    if (key.startsWith(start) && !remoteKeys.has(key) && item.state === 'synced') {
+      delete cache.items[key];
+    }
+  });
+
+  remote.forEach(({ key, data }) => {
+    const cacheKey = itemKey(collection, key);
+    const local = cache.items[cacheKey];
+    if (local?.state === 'pending') return;
+
+    cache.items[cacheKey] = {
+      data,
+      state: 'synced',
+      updatedAt: data.updatedAt ?? new Date().toISOString(),
+    };
+  });
+
+  await persistCache(userId, cache);
+  return getCachedItems<T>(userId, collection, prefix);
+}
+
+/**
+ * Applies a write to the cache right away and queues it for Firestore.
+ * The write is sent immediately when online, otherwise on reconnect.
+ */
+export async function queueWrite<T extends object>(
+  userId: string,
+  collection: SyncCollection,
+  key: string,
+  data: T
+): Promise<T & { updatedAt: string }> {
+  const cache = await loadCache(userId);
+  const updatedAt = new Date().toISOString();
+  const written = { ...data, updatedAt };
+  const cacheKey = itemKey(collection, key);
+
+  cache.items[cacheKey] = { data: written, state: 'pending', updatedAt };
+  cache.outbox = [
+    ...cache.outbox.filter(entry => itemKey(entry.collection, entry.key) !== cacheKey),
+    { collection, key, data: written, updatedAt },
+  ];
+  await persistCache(userId, cache);
+
+  flushOutbox(userId).catch(error => console.error('Error flushing outbox:', error));
+  return written;
+}
+
+/**
+ * Like queueWrite, but only the given fields are written, so changes made
+ * elsewhere to the other fields (e.g. by processing) are neither rolled back
+ * nor the cause of a conflict. Fields set to undefined are removed.
+ */
+export async function queueUpdate<T extends object>(
+  userId: string,
+  collection: SyncCollection,
+  key: string,
+  changes: Partial<T>
+): Promise<T & { updatedAt: string }> {
+  const cache = await loadCache(userId);
+  const updatedAt = new Date().toISOString();
+  const cacheKey = itemKey(collection, key);
+  const deleted = Object.keys(changes).filter(field => changes[field as keyof T] === undefined);
+  const withoutDeleted = <D extends object>(data: D) =>
+    Object.fromEntries(Object.entries(data).filter(([field]) => !deleted.includes(field))) as D;
+
+  const written = withoutDeleted({ ...cache.items[cacheKey]?.data, ...changes, updatedAt }) as T & { updatedAt: string };
+  cache.items[cacheKey] = { data: written, state: 'pending', updatedAt };
+
+  // Combined with a write still waiting for the same item
+  const queued = cache.outbox.find(entry => itemKey(entry.collection, entry.key) === cacheKey);
+  const entry: OutboxEntry = queued && !queued.merge
+    ? { collection, key, data: written, updatedAt }
+    : {
+        collection,
+        key,
+        data: withoutDeleted({ ...queued?.data, ...changes, updatedAt }),
+        updatedAt,
+        merge: true,
+        deleted: [...new Set([...(queued?.deleted ?? []).filter(field => !(field in changes)), ...deleted])],
+      };
+  cache.outbox = [...cache.outbox.filter(item => itemKey(item.collection, item.key) !== cacheKey), entry];
+  await persistCache(userId, cache);
+
+  flushOutbox(userId).catch(error => console.error('Error flushing outbox:', error));
+  return written;
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      setTimeout(() => reject(new Error('Request timeout')), REQUEST_TIMEOUT);
+    }),
+  ]);
+}
+
+const isNetworkError = (error: any) =>
+  error?.code === 'unavailable' ||
+  /offline|timeout|network/i.test(error?.message ?? '');
+
+/**
+ * Sends queued writes in order. Conflicts are resolved last-writer-wins on
+ * `updatedAt`: a queued write is only applied when the server copy is older
+ * than the local change. Otherwise the server copy replaces the local one and
+ * the item is flagged as a conflict so the UI can point it out.
+ */
+export async function flushOutbox(userId: string): Promise<void> {
+  if (flushing.has(userId)) return;
+  if (!(await isOnline())) return;
+
+  flushing.add(userId);
+  const cache = await loadCache(userId);
+  // Writes queued while a request is running replace the entry being sent;
+  // the newer entry then stays queued and the cached item stays pending
+  const isQueued = (entry: OutboxEntry) => cache.outbox.includes(entry);
+
+  try {
+    while (cache.outbox.length > 0) {
+      const entry = cache.outbox[0];
+      const cacheKey = itemKey(entry.collection, entry.key);
+      const ref = doc(db, 'users', userId, ...firestorePath(entry.collection, entry.key));
+
+      try {
+        const remote = await withTimeout(getDoc(ref));
+        const remoteUpdatedAt: string | undefined = remote.exists() ? remote.data().updatedAt : undefined;
+
+        if (entry.merge) {
+          // Firestore rejects undefined values
+          const fields = JSON.parse(JSON.stringify(entry.data));
+          const newest = remoteUpdatedAt && remoteUpdatedAt > entry.updatedAt ? remoteUpdatedAt : entry.updatedAt;
+          const removed = Object.fromEntries((entry.deleted ?? []).map(field => [field, deleteField()]));
+          await withTimeout(setDoc(ref, { ...fields, ...removed, updatedAt: newest }, { merge: true }));
+
+          const merged = Object.fromEntries(
+            Object.entries({ ...(remote.exists() ? remote.data() : {}), ...fields, updatedAt: newest })
+              .filter(([field]) => !(entry.deleted ?? []).includes(field))
+          );
+          if (isQueued(entry)) {
+            cache.items[cacheKey] = { data: merged, state: 'synced', updatedAt: newest };
+          }
+        } else if (remoteUpdatedAt && remoteUpdatedAt > entry.updatedAt) {
+          console.warn('Sync conflict, keeping newer server copy:', cacheKey);
+          if (isQueued(entry)) {
+            cache.items[cacheKey] = { data: remote.data(), state: 'conflict', updatedAt: remoteUpdatedAt };
+          }
+        } else {
+          // Firestore rejects undefined values
+          await withTimeout(setDoc(ref, JSON.parse(JSON.stringify(entry.data))));
+          if (isQueued(entry)) {
+            cache.items[cacheKey] = { data: entry.data, state: 'synced', updatedAt: entry.updatedAt };
+          }
+        }
+        cache.outbox = cache.outbox.filter(item => item !== entry);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          console.log('Connection lost while syncing, will retry later');
+          break;
+        }
+
+        // Rejected writes stay queued so they are retried on the next flush
+        console.error('Error syncing item:', cacheKey, error);
+        if (isQueued(entry)) {
+          if (cache.items[cacheKey]) {
+            cache.items[cacheKey].state = 'error';
+          }
+          cache.outbox = [...cache.outbox.filter(item => item !== entry), entry];
+        }
+        break;
+      }
+
+      await persistCache(userId, cache);
+    }
+  } finally {
+    flushing.delete(userId);
+    await persistCache(userId, cache);
+  }
+}
+
+export async function getCachedContent(userId: string, documentId: string): Promise<CachedContent | null> {
+  return readJson<CachedContent | null>(contentKey(userId, documentId), null);
+}
+
+export async function cacheContent(userId: string, documentId: string, content: string): Promise<void> {
+  try {
+    const cached: CachedContent = { content, updatedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(contentKey(userId, documentId), JSON.stringify(cached));
+  } catch (error) {
+    // Only costs a download the next time the document is opened
+    console.error('Error caching document content:', error);
+  }
+}
+
+// Drops cached items, and any writes still queued for them, whose key starts with one of the prefixes
+export async function removeCachedItems(userId: string, prefixes: string[]): Promise<void> {
+  const cache = await loadCache(userId);
+  const matches = (key: string) => prefixes.some(prefix => key.startsWith(prefix));
+
+  Object.keys(cache.items).filter(matches).forEach(key => {
+    delete cache.items[key];
+  });
+  cache.outbox = cache.outbox.filter(entry => !matches(itemKey(entry.collection, entry.key)));
+  await persistCache(userId, cache);
+}
+
+export async function removeCachedContent(userId: string, documentId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(contentKey(userId, documentId));
+  } catch (error) {
+    console.error('Error removing cached content:', error);
+  }
+}
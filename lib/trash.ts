@@ -0,0 +1,209 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deleteObject, listAll, ref, StorageReference } from 'firebase/storage';
+import { collection, deleteDoc, doc, getDocs, query, where } from 'firebase/firestore';
+import { db, storage } from './firebase';
+import { DocumentRecord, saveDocumentRecord } from './documents';
+import { isOnline, itemKey, removeCachedContent, removeCachedItems } from './sync';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Exercise sets replaced by a newer analysis that still have to be deleted
+const REPLACED_SETS_STORAGE_KEY = 'replaced_exercise_sets';
+
+export function isTrashed(record: DocumentRecord): boolean {
+  return !!record.deletedAt;
+}
+
+export function daysUntilPurge(record: DocumentRecord, now = Date.now()): number {
+  if (!record.deletedAt) return TRASH_RETENTION_DAYS;
+  const elapsed = (now - Date.parse(record.deletedAt)) / DAY_MS;
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed));
+}
+
+// Trashing only marks the record, so nothing is lost until the trash is purged
+export async function moveToTrash(userId: string, record: DocumentRecord): Promise<void> {
+  try {
+    await saveDocumentRecord(userId, record.id, { deletedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error moving document to trash:', error);
+    throw error;
+  }
+}
+
+export async function restoreFromTrash(userId: string, record: DocumentRecord): Promise<void> {
+  try {
+    await saveDocumentRecord(userId, record.id, { deletedAt: undefined });
+  } catch (error) {
+    console.error('Error restoring document:', error);
+    throw error;
+  }
+}
+
+// Deletes a file, or every file below a folder; missing files are not an error
+export async function deleteStoragePath(path: string): Promise<void> {
+  const deleteRef = async (fileRef: StorageReference) => {
+    try {
+      await deleteObject(fileRef);
+    } catch (error: any) {
+      if (error?.code !== 'storage/object-not-found') throw error;
+    }
+  };
+
+  const folder = await listAll(ref(storage, path));
+  if (folder.items.length === 0 && folder.prefixes.length === 0) {
+    await deleteRef(ref(storage, path));
+    return;
+  }
+
+  await Promise.all(folder.items.map(deleteRef));
+  for (const prefix of folder.prefixes) {
+    await deleteStoragePath(prefix.fullPath);
+  }
+}
+
+async function deleteCollection(path: string[]): Promise<void> {
+  const [first, ...rest] = path;
+  const snapshot = await getDocs(collection(db, first, ...rest));
+  await Promise.all(snapshot.docs.map(item => deleteDoc(item.ref)));
+}
+
+const exerciseSetItems = (exerciseId: string) => [
+  itemKey('exercises', exerciseId),
+  itemKey('solutions', `${exerciseId}/`),
+  itemKey('attempts', `${exerciseId}/`),
+];
+
+// Deletes an exercise set with its solutions, attempts, answer images and their index entries
+export async function purgeExerciseSet(userId: string, exerciseId: string): Promise<void> {
+  try {
+    await deleteStoragePath(`answers/${userId}/${exerciseId}`);
+    await deleteCollection(['users', userId, 'exercises', exerciseId, 'solutions']);
+    await deleteCollection(['users', userId, 'exercises', exerciseId, 'attempts']);
+    await deleteDoc(doc(db, 'users', userId, 'exercises', exerciseId));
+
+    // Answer images are gone, so identical photos must not be matched to them anymore
+    const answerEntries = await getDocs(
+      query(collection(db, 'users', userId, 'uploadIndex'), where('exerciseId', '==', exerciseId))
+    );
+    await Promise.all(answerEntries.docs.map(entry => deleteDoc(entry.ref)));
+
+    await removeCachedItems(userId, exerciseSetItems(exerciseId));
+  } catch (error) {
+    console.error('Error purging exercise set:', error);
+    throw error;
+  }
+}
+
+export async function getReplacedExerciseSets(userId: string): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(`${REPLACED_SETS_STORAGE_KEY}_${userId}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading replaced exercise sets:', error);
+    return [];
+  }
+}
+
+async function saveReplacedExerciseSets(userId: string, exerciseIds: string[]): Promise<void> {
+  await AsyncStorage.setItem(`${REPLACED_SETS_STORAGE_KEY}_${userId}`, JSON.stringify(exerciseIds));
+}
+
+/**
+ * Deletes the sets of an earlier analysis once a new one is saved. They leave
+ * the cache right away; offline, or when deleting fails, the purge is retried
+ * on the next load, so the new analysis is kept either way.
+ */
+export async function replaceExerciseSets(userId: string, exerciseIds: string[]): Promise<void> {
+  if (exerciseIds.length === 0) return;
+
+  try {
+    const replaced = await getReplacedExerciseSets(userId);
+    await saveReplacedExerciseSets(userId, [...new Set([...replaced, ...exerciseIds])]);
+    await removeCachedItems(userId, exerciseIds.flatMap(exerciseSetItems));
+  } catch (error) {
+    console.error('Error queueing replaced exercise sets:', error);
+  }
+  await purgeReplacedExerciseSets(userId);
+}
+
+export async function purgeReplacedExerciseSets(userId: string): Promise<void> {
+  if (!(await isOnline())) return;
+
+  for (const exerciseId of await getReplacedExerciseSets(userId)) {
+    try {
+      await purgeExerciseSet(userId, exerciseId);
+      const replaced = await getReplacedExerciseSets(userId);
+      await saveReplacedExerciseSets(userId, replaced.filter(id => id !== exerciseId));
+    } catch (error) {
+      console.error('Error purging replaced exercise set:', exerciseId, error);
+      return;
+    }
+  }
+}
+
+/**
+ * Permanently deletes a document and everything derived from it: the uploaded
+ * original, the MMD with its earlier versions, the layout, the exercise sets with
+ * their solutions and attempts, answer images and the upload index entries pointing at it.
+ * The record itself goes last, so a failed purge can simply be retried.
+ */
+export async function purgeDocument(userId: string, record: DocumentRecord): Promise<void> {
+  try {
+    console.log('Purging document:', record.id, record.title);
+
+    // Uploads made since documents have ids live in a folder named after the id
+    const sourcePaths = new Set([`uploads/${userId}/${record.id}`]);
+    if (record.sourcePath) {
+      sourcePaths.add(record.sourcePath);
+    }
+    for (const path of sourcePaths) {
+      await deleteStoragePath(path);
+    }
+    await deleteStoragePath(record.mmdPath);
+    if (record.layoutPath) {
+      await deleteStoragePath(record.layoutPath);
+    }
+    await deleteStoragePath(`users/${userId}/versions/${record.id}`);
+
+    // Sets saved before documents had several are only linked by their id
+    const exerciseSets = await getDocs(
+      query(collection(db, 'users', userId, 'exercises'), where('documentId', '==', record.id))
+    );
+    const exerciseIds = new Set([record.exerciseId ?? record.id, ...exerciseSets.docs.map(item => item.id)]);
+    for (const exerciseId of exerciseIds) {
+      await purgeExerciseSet(userId, exerciseId);
+    }
+
+    const indexEntries = await getDocs(
+      query(collection(db, 'users', userId, 'uploadIndex'), where('documentId', '==', record.id))
+    );
+    await Promise.all(indexEntries.docs.map(entry => deleteDoc(entry.ref)));
+
+    await deleteCollection(['users', userId, 'documents', record.id, 'versions']);
+    await deleteDoc(doc(db, 'users', userId, 'documents', record.id));
+
+    await removeCachedItems(userId, [itemKey('documents', record.id)]);
+    await removeCachedContent(userId, record.id);
+  } catch (error) {
+    console.error('Error purging document:', error);
+    throw error;
+  }
+}
+
+// Documents stay in the trash for TRASH_RETENTION_DAYS before they are purged
+export async function purgeExpiredTrash(userId: string, records: DocumentRecord[]): Promise<string[]> {
+  const expired = records.filter(record => isTrashed(record) && daysUntilPurge(record) === 0);
+  const purged: string[] = [];
+
+  for (const record of expired) {
+    try {
+      await purgeDocument(userId, record);
+      purged.push(record.id);
+    } catch (error) {
+      console.error('Error purging expired document:', record.id, error);
+    }
+  }
+
+  return purged;
+}
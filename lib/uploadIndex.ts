@@ -0,0 +1,105 @@
+import * as Crypto from 'expo-crypto';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { getMetadata, ref } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { readBlob } from './files';
+import { OcrLine, OcrProviderName } from './ocr';
+
+/**
+ * Maps the content hash of an upload to what was produced from it, so the
+ * same sheet uploaded again reuses the stored MMD instead of running OCR.
+ * Documents point at their MMD file; answer images keep the OCR result inline.
+ */
+export type UploadKind = 'document' | 'answer';
+
+export interface UploadIndexEntry {
+  hash: string;
+  kind: UploadKind;
+  ocrProvider: OcrProviderName;
+  // Documents
+  documentId?: string;
+  filename?: string;
+  title?: string;
+  pageRanges?: string;
+  // Answer images
+  exerciseId?: string;
+  downloadUrl?: string;
+  mmd?: string;
+  confidence?: number;
+  lines?: OcrLine[];
+  createdAt: string;
+}
+
+export async function hashUri(uri: string): Promise<string> {
+  const blob = await fetch(uri).then(r => r.blob());
+  const base64 = await readBlob(blob, 'base64');
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
+}
+
+// Multi-page scans are identified by their pages in order
+export async function hashUris(uris: string[]): Promise<string> {
+  const hashes: string[] = [];
+  for (const uri of uris) {
+    hashes.push(await hashUri(uri));
+  }
+  return hashes.length === 1
+    ? hashes[0]
+    : Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, hashes.join(':'));
+}
+
+// The same file may be uploaded as a document and as an answer. Documents are
+// scoped by their page selection, as other pages produce different content;
+// answer images by their exercise, whose folder the image is stored in.
+function entryId(kind: UploadKind, hash: string, scope?: string): string {
+  const id = `${kind}_${hash}`;
+  return scope ? `${id}_${scope}` : id;
+}
+
+export async function findUploadByHash(
+  userId: string,
+  kind: UploadKind,
+  hash: string,
+  scope?: string
+): Promise<UploadIndexEntry | null> {
+  try {
+    const snapshot = await getDoc(doc(db, 'users', userId, 'uploadIndex', entryId(kind, hash, scope)));
+    return snapshot.exists() ? (snapshot.data() as UploadIndexEntry) : null;
+  } catch (error) {
+    // A failed lookup only costs a duplicate OCR run, so it shouldn't fail the upload
+    console.error('Error looking up upload hash:', error);
+    return null;
+  }
+}
+
+// Entries written before purging removed them may point at deleted answer images
+export async function uploadStillExists(entry: UploadIndexEntry): Promise<boolean> {
+  if (!entry.downloadUrl) return false;
+  try {
+    await getMetadata(ref(storage, entry.downloadUrl));
+    return true;
+  } catch (error: any) {
+    return error?.code !== 'storage/object-not-found';
+  }
+}
+
+export async function recordUpload(
+  userId: string,
+  entry: Omit<UploadIndexEntry, 'createdAt'>
+): Promise<void> {
+  try {
+    // Firestore rejects undefined values, including inside arrays
+    const data = Object.fromEntries(
+      Object.entries({
+        ...entry,
+        lines: entry.lines?.map(line => JSON.parse(JSON.stringify(line))),
+      }).filter(([, value]) => value !== undefined)
+    );
+    const scope = entry.kind === 'document' ? entry.pageRanges : entry.exerciseId;
+    await setDoc(doc(db, 'users', userId, 'uploadIndex', entryId(entry.kind, entry.hash, scope)), {
+      ...data,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error recording upload hash:', error);
+  }
+}
@@ -0,0 +1,651 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
+import { storage } from './firebase';
+import {
+  OcrError,
+  OcrErrorCode,
+  OcrImageResult,
+  OcrLine,
+  OcrProviderName,
+  ProcessingProgress,
+  getOcrProvider,
+  waitForPdf,
+} from './ocr';
+import {
+  DocumentRecord,
+  createDocumentRecord,
+  fetchDocumentRecord,
+  getPageNumbers,
+  loadMmd,
+  mmdPath,
+  newDocumentId,
+  saveMmd,
+  updateDocumentRecord,
+} from './documents';
+import { formatPageRanges, joinPages, parsePageRanges } from './pages';
+import { getConfidenceThreshold } from './settings';
+import { convertToMmd, getImportFormat, getImportMimeType } from './importers';
+import { findUploadByHash, hashUri, hashUris, recordUpload } from './uploadIndex';
+import { PageLayout, saveLayout } from './layout';
+import { saveVersion, updateDocumentContent } from './versions';
+import { checkFileSize, checkQuota } from './usage';
+import { deleteStoragePath } from './trash';
+import { UserRole } from '../types/auth';
+
+export type UploadJobState =
+  | 'queued'
+  | 'uploading'
+  | 'processing'
+  | 'review'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type UploadJobKind = 'pdf' | 'image' | 'import' | 'scan';
+
+// One photographed page of a scan; progress is kept per page so a resumed
+// job doesn't upload or recognize pages twice
+export interface ScanPage {
+  localUri: string;
+  storagePath: string;
+  mimeType: string;
+  size: number;
+  downloadUrl?: string;
+  mmd?: string;
+  confidence?: number;
+  lines?: OcrLine[];
+  width?: number;
+  height?: number;
+}
+
+export interface UploadJob {
+  id: string;
+  kind?: UploadJobKind;
+  userId: string;
+  // Decides the upload quota; jobs queued before quotas existed count as 'free'
+  role?: UserRole;
+  filename: string;
+  title: string;
+  mimeType: string;
+  size: number;
+  localUri: string;
+  storagePath: string;
+  downloadUrl?: string;
+  ocrProvider: OcrProviderName;
+  pageRanges?: string;
+  pdfId?: string;
+  scanPages?: ScanPage[];
+  contentHash?: string;
+  // Generated when the job is created; jobs queued before that get one on their next run
+  documentId?: string;
+  // Title of the earlier upload whose content was reused
+  duplicateOf?: string;
+  // Recognizes an existing document again; the result becomes a new version of its content
+  replaceContent?: boolean;
+  state: UploadJobState;
+  progress?: ProcessingProgress;
+  // Set when recognition confidence was too low and the user has to check it
+  review?: {
+    mmd: string;
+    confidence: number;
+    lines: OcrLine[];
+  };
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface UploadJobInput {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  pageRanges?: string;
+}
+
+export interface ScanJobInput {
+  name: string;
+  pages: {
+    uri: string;
+    mimeType: string;
+    size: number;
+  }[];
+}
+
+export interface UploadJobResult {
+  documentId?: string;
+  title: string;
+  mmd: string;
+  duplicate?: boolean;
+}
+
+const UPLOAD_JOBS_STORAGE_KEY = 'upload_jobs';
+
+export function getJobKind(job: Pick<UploadJob, 'kind' | 'mimeType'>): UploadJobKind {
+  if (job.kind) return job.kind;
+  return job.mimeType.startsWith('image/') ? 'image' : 'pdf';
+}
+
+export function isActiveJob(job: UploadJob): boolean {
+  return job.state === 'queued' || job.state === 'uploading' || job.state === 'processing';
+}
+
+export function createUploadJob(userId: string, input: UploadJobInput, role: UserRole): UploadJob {
+  checkFileSize(role, input.size);
+
+  // Text formats are recognized by extension since pickers rarely report a useful type
+  const importMimeType = getImportFormat(input.name) ? getImportMimeType(input.name) : null;
+  const mimeType = importMimeType ?? input.mimeType;
+
+  if (!importMimeType && !mimeType.match(/^(application\/pdf|image\/(jpeg|png|jpg))$/)) {
+    throw new Error('Invalid file type. Please upload a PDF, image (JPEG/PNG), or a .tex, .md, .mmd, .txt or .docx file');
+  }
+
+  const kind: UploadJobKind = importMimeType
+    ? 'import'
+    : mimeType.startsWith('image/') ? 'image' : 'pdf';
+
+  const pageRanges = formatPageRanges(parsePageRanges(input.pageRanges ?? ''));
+
+  const now = Date.now();
+  const documentId = newDocumentId(userId);
+  return {
+    id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    userId,
+    role,
+    filename: input.name,
+    title: input.name.replace(/\.[^/.]+$/, ''),
+    mimeType,
+    size: input.size,
+    localUri: input.uri,
+    storagePath: `uploads/${userId}/${documentId}/${input.name}`,
+    documentId,
+    ocrProvider: getOcrProvider().name,
+    pageRanges: pageRanges || undefined,
+    state: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createScanJob(userId: string, input: ScanJobInput, role: UserRole): UploadJob {
+  if (input.pages.length === 0) {
+    throw new Error('Scan at least one page');
+  }
+
+  const size = input.pages.reduce((total, page) => total + page.size, 0);
+  input.pages.forEach((page, index) => {
+    checkFileSize(role, page.size, `Page ${index + 1}`);
+    if (!page.mimeType.match(/^image\/(jpeg|png|jpg)$/)) {
+      throw new Error(`Page ${index + 1} is not a JPEG or PNG image`);
+    }
+  });
+
+  const now = Date.now();
+  const name = input.name.trim() || `scan-${now}`;
+  const documentId = newDocumentId(userId);
+  const folder = `uploads/${userId}/${documentId}`;
+
+  return {
+    id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: 'scan',
+    userId,
+    role,
+    filename: name,
+    title: name,
+    mimeType: input.pages[0].mimeType,
+    size,
+    localUri: input.pages[0].uri,
+    storagePath: folder,
+    documentId,
+    ocrProvider: getOcrProvider().name,
+    scanPages: input.pages.map((page, index) => ({
+      localUri: page.uri,
+      storagePath: `${folder}/page-${index + 1}.${page.mimeType.split('/')[1]}`,
+      mimeType: page.mimeType,
+      size: page.size,
+    })),
+    state: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Only uploads whose original is still in storage can be recognized again
+export function canRecognizeAgain(record: DocumentRecord): boolean {
+  return (record.sourceType === 'pdf' || record.sourceType === 'image') && !!record.sourcePath;
+}
+
+export async function createReprocessJob(userId: string, record: DocumentRecord): Promise<UploadJob> {
+  if (!canRecognizeAgain(record)) {
+    throw new Error('Only uploaded PDFs and images can be recognized again');
+  }
+
+  const downloadUrl = await getDownloadURL(ref(storage, record.sourcePath!));
+  const now = Date.now();
+  const kind = record.sourceType as 'pdf' | 'image';
+
+  return {
+    id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    userId,
+    filename: record.sourceFilename,
+    title: record.title,
+    mimeType: kind === 'pdf'
+      ? 'application/pdf'
+      : record.sourceFilename.match(/\.png$/i) ? 'image/png' : 'image/jpeg',
+    size: record.size ?? 0,
+    localUri: downloadUrl,
+    storagePath: record.sourcePath!,
+    downloadUrl,
+    documentId: record.id,
+    ocrProvider: getOcrProvider().name,
+    // Only the originally selected pages were recognized the first time
+    pageRanges: record.pages ? formatPageRanges(record.pages.map(page => ({ start: page, end: page }))) : undefined,
+    replaceContent: true,
+    state: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function loadUploadJobs(userId: string): Promise<UploadJob[]> {
+  try {
+    const storedJobs = await AsyncStorage.getItem(`${UPLOAD_JOBS_STORAGE_KEY}_${userId}`);
+    return storedJobs ? JSON.parse(storedJobs) : [];
+  } catch (error) {
+    console.error('Error loading upload jobs:', error);
+    return [];
+  }
+}
+
+export async function saveUploadJobs(userId: string, jobs: UploadJob[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${UPLOAD_JOBS_STORAGE_KEY}_${userId}`, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Error saving upload jobs:', error);
+  }
+}
+
+async function completeJob(
+  job: UploadJob,
+  mmd: string,
+  apply: (changes: Partial<UploadJob>) => void
+): Promise<UploadJobResult> {
+  if (!job.documentId) {
+    throw new Error('Upload job has no document id');
+  }
+
+  apply({ progress: { phase: 'saving', percentDone: 100 } });
+  const pages = getPageNumbers(mmd);
+  const kind = getJobKind(job);
+  const change = kind === 'import'
+    ? { source: 'import' as const, author: job.filename }
+    : { source: 'ocr' as const, author: job.ocrProvider };
+
+  if (job.replaceContent) {
+    const record = await fetchDocumentRecord(job.userId, job.documentId);
+    const previous = await loadMmd(job.userId, job.documentId);
+    await updateDocumentContent(job.userId, job.documentId, previous, mmd, change);
+    await updateDocumentRecord(job.userId, job.documentId, {
+      sourcePath: job.storagePath,
+      pages,
+      pageCount: pages?.length ?? job.scanPages?.length,
+    });
+
+    // A newly uploaded original replaces the earlier one, unless it was stored in its place
+    const previousSource = record?.sourcePath;
+    if (previousSource && !job.storagePath.startsWith(previousSource)) {
+      try {
+        await deleteStoragePath(previousSource);
+      } catch (error) {
+        console.error('Error deleting replaced original for job:', job.id, error);
+      }
+    }
+  } else {
+    await saveMmd(job.userId, job.documentId, mmd);
+    await updateDocumentRecord(job.userId, job.documentId, {
+      state: 'ready',
+      pages,
+      pageCount: pages?.length ?? job.scanPages?.length,
+    });
+
+    // The history only starts later for documents whose first version is lost
+    try {
+      await saveVersion(job.userId, job.documentId, mmd, change);
+    } catch (error) {
+      console.error('Error saving first version for job:', job.id, error);
+    }
+  }
+
+  if (job.contentHash) {
+    await recordUpload(job.userId, {
+      hash: job.contentHash,
+      kind: 'document',
+      ocrProvider: job.ocrProvider,
+      documentId: job.documentId,
+      filename: job.filename,
+      title: job.title,
+      pageRanges: job.pageRanges,
+    });
+  }
+
+  apply({ state: 'completed', progress: undefined, review: undefined });
+  return { documentId: job.documentId, title: job.title, mmd };
+}
+
+export async function completeReviewedJob(
+  job: UploadJob,
+  mmd: string,
+  update: (changes: Partial<UploadJob>) => void
+): Promise<UploadJobResult> {
+  if (!mmd.trim()) {
+    throw new Error('The reviewed content is empty');
+  }
+  return completeJob(job, mmd, update);
+}
+
+function imageLayout(
+  page: number,
+  imageUrl: string,
+  result: Pick<OcrImageResult, 'lines' | 'width' | 'height'>
+): PageLayout | null {
+  if (!result.width || !result.height) return null;
+
+  return {
+    page,
+    width: result.width,
+    height: result.height,
+    imageUrl,
+    lines: (result.lines ?? [])
+      .filter(line => line.region)
+      .map(line => ({ text: line.text, region: line.region! })),
+  };
+}
+
+// Layouts only power "view in original", so failing to store one doesn't fail the job
+async function saveJobLayout(job: UploadJob, layout: (PageLayout | null | undefined)[]): Promise<void> {
+  const pages = layout.filter((page): page is PageLayout => !!page);
+  if (pages.length === 0 || !job.documentId) return;
+
+  try {
+    const layoutPath = await saveLayout(job.userId, job.documentId, pages);
+    await updateDocumentRecord(job.userId, job.documentId, { layoutPath });
+  } catch (error) {
+    console.error('Error saving layout for job:', job.id, error);
+  }
+}
+
+async function uploadFile(
+  job: UploadJob,
+  localUri: string,
+  storagePath: string,
+  contentType: string,
+  signal: AbortSignal,
+  onProgress: (percentDone: number) => void,
+  throwIfCancelled: () => void
+): Promise<string> {
+  const file = await fetch(localUri).then(r => r.blob());
+  await checkQuota(job.userId, job.role ?? 'free', file.size);
+  throwIfCancelled();
+
+  const storageRef = ref(storage, storagePath);
+  // Blobs of imported files often have no type, which the storage rules reject
+  const uploadTask = uploadBytesResumable(storageRef, file, { contentType });
+  const cancelUpload = () => uploadTask.cancel();
+  signal.addEventListener('abort', cancelUpload);
+  uploadTask.on('state_changed', snapshot => {
+    onProgress(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100));
+  });
+
+  try {
+    await uploadTask;
+  } catch (error) {
+    throwIfCancelled();
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', cancelUpload);
+  }
+
+  return getDownloadURL(storageRef);
+}
+
+/**
+ * Runs a job from whatever step it last reached. Progress is reported through
+ * `update` after every step so an interrupted job can pick up where it left
+ * off (e.g. resume polling a known `pdfId` instead of uploading again).
+ * Resolves to null when the job is parked for review instead of completing.
+ */
+export async function runUploadJob(
+  job: UploadJob,
+  update: (changes: Partial<UploadJob>) => void,
+  signal: AbortSignal
+): Promise<UploadJobResult | null> {
+  let current = { ...job };
+  const apply = (changes: Partial<UploadJob>) => {
+    current = { ...current, ...changes, updatedAt: Date.now() };
+    update(changes);
+  };
+  const throwIfCancelled = () => {
+    if (signal.aborted) {
+      throw new OcrError(OcrErrorCode.CANCELLED, 'Upload was cancelled', current.ocrProvider);
+    }
+  };
+
+  const kind = getJobKind(current);
+
+  // Jobs that were already hashed skip the lookup, which is how re-processing
+  // a duplicate is forced
+  if (!current.contentHash && !current.replaceContent) {
+    apply({ state: 'uploading', progress: { phase: 'hashing' }, error: undefined });
+    const contentHash = kind === 'scan'
+      ? await hashUris((current.scanPages ?? []).map(page => page.localUri))
+      : await hashUri(current.localUri);
+    apply({ contentHash });
+    throwIfCancelled();
+
+    const existing = await findUploadByHash(current.userId, 'document', contentHash, current.pageRanges);
+    if (existing?.kind === 'document' && existing.documentId) {
+      try {
+        const mmd = await loadMmd(current.userId, existing.documentId);
+        const title = existing.title ?? existing.filename ?? current.title;
+        console.log('Reusing content of identical upload:', title);
+        // Processing the duplicate again updates the existing document, so its
+        // original goes into that document's folder
+        const folder = `uploads/${current.userId}/${existing.documentId}`;
+        apply({
+          state: 'completed',
+          progress: undefined,
+          duplicateOf: title,
+          documentId: existing.documentId,
+          storagePath: kind === 'scan' ? folder : `${folder}/${current.filename}`,
+          scanPages: current.scanPages?.map((page, index) => ({
+            ...page,
+            storagePath: `${folder}/page-${index + 1}.${page.mimeType.split('/')[1]}`,
+          })),
+        });
+        return { documentId: existing.documentId, title, mmd, duplicate: true };
+      } catch (error) {
+        // The earlier MMD is gone, so process the file again
+        console.warn('Indexed upload could not be loaded, processing again:', error);
+      }
+    }
+  }
+
+  const documentId = current.documentId ?? newDocumentId(current.userId);
+  apply({ documentId });
+  // A document recognized again stays listed with its current content meanwhile
+  if (!current.replaceContent) {
+    await createDocumentRecord(current.userId, documentId, {
+      title: current.title,
+      sourceFilename: current.filename,
+      sourceType: kind,
+      sourcePath: current.storagePath,
+      mmdPath: mmdPath(current.userId, documentId),
+      size: current.size,
+      state: 'processing',
+    });
+  }
+
+  // Scans upload their pages one by one below
+  if (kind !== 'scan' && !current.downloadUrl) {
+    apply({
+      state: 'uploading',
+      progress: { phase: 'uploading', percentDone: 0 },
+      error: undefined,
+    });
+    console.log('Uploading file for job:', current.id);
+
+    const downloadUrl = await uploadFile(
+      current,
+      current.localUri,
+      current.storagePath,
+      current.mimeType,
+      signal,
+      percentDone => apply({ progress: { phase: 'uploading', percentDone } }),
+      throwIfCancelled
+    );
+    apply({ downloadUrl });
+  }
+
+  throwIfCancelled();
+  apply({
+    state: 'processing',
+    progress: { phase: 'queued', percentDone: 0 },
+    error: undefined,
+  });
+  const onProgress = (progress: ProcessingProgress) => apply({ progress });
+  const provider = getOcrProvider(current.ocrProvider);
+
+  let mmd: string | undefined;
+  if (kind === 'import') {
+    // Imported files are already text and skip OCR entirely
+    apply({ progress: { phase: 'converting' } });
+    const file = await fetch(current.localUri).then(r => r.blob());
+    mmd = await convertToMmd(current.filename, file);
+  } else if (kind === 'image') {
+    apply({ progress: { phase: 'ocr' } });
+    const result = await provider.recognizeImage(current.downloadUrl!);
+    await saveJobLayout(current, [imageLayout(1, current.downloadUrl!, result)]);
+    const threshold = await getConfidenceThreshold();
+
+    if (result.confidence !== undefined && result.confidence < threshold) {
+      console.log('Low recognition confidence, waiting for review:', result.confidence);
+      apply({
+        state: 'review',
+        progress: undefined,
+        review: {
+          mmd: result.mmd,
+          confidence: result.confidence,
+          lines: result.lines ?? [],
+        },
+      });
+      return null;
+    }
+    mmd = result.mmd;
+  } else if (kind === 'scan') {
+    const scanPages = [...(current.scanPages ?? [])];
+    const numPages = scanPages.length;
+
+    for (let index = 0; index < numPages; index++) {
+      let page = scanPages[index];
+
+      if (!page.downloadUrl) {
+        apply({
+          state: 'uploading',
+          progress: { phase: 'uploading', percentDone: 0, numPages, numPagesCompleted: index },
+        });
+        const downloadUrl = await uploadFile(
+          current,
+          page.localUri,
+          page.storagePath,
+          page.mimeType,
+          signal,
+          percentDone => apply({
+            progress: { phase: 'uploading', percentDone, numPages, numPagesCompleted: index },
+          }),
+          throwIfCancelled
+        );
+        page = { ...page, downloadUrl };
+        scanPages[index] = page;
+        apply({ scanPages: [...scanPages] });
+      }
+
+      if (page.mmd === undefined) {
+        throwIfCancelled();
+        apply({
+          state: 'processing',
+          progress: {
+            phase: 'ocr',
+            percentDone: Math.round((index / numPages) * 100),
+            numPages,
+            numPagesCompleted: index,
+          },
+        });
+        const result = await provider.recognizeImage(page.downloadUrl!);
+        scanPages[index] = {
+          ...page,
+          mmd: result.mmd,
+          confidence: result.confidence,
+          lines: result.lines,
+          width: result.width,
+          height: result.height,
+        };
+        apply({ scanPages: [...scanPages] });
+      }
+    }
+
+    await saveJobLayout(
+      current,
+      scanPages.map((page, index) => imageLayout(index + 1, page.downloadUrl!, page))
+    );
+
+    mmd = joinPages(scanPages.map((page, index) => ({ number: index + 1, content: page.mmd ?? '' })));
+
+    // The least confident page decides whether the scan needs a review
+    const threshold = await getConfidenceThreshold();
+    const weakest = scanPages.reduce<ScanPage | null>(
+      (lowest, page) =>
+        page.confidence !== undefined && (!lowest || page.confidence < lowest.confidence!)
+          ? page
+          : lowest,
+      null
+    );
+    if (weakest && weakest.confidence! < threshold) {
+      console.log('Low recognition confidence on scan, waiting for review:', weakest.confidence);
+      apply({
+        state: 'review',
+        progress: undefined,
+        downloadUrl: weakest.downloadUrl,
+        review: {
+          mmd,
+          confidence: weakest.confidence!,
+          lines: scanPages.flatMap(page => page.lines ?? []),
+        },
+      });
+      return null;
+    }
+  } else {
+    if (!current.pdfId) {
+      const pdfId = await provider.recognizePdf(current.downloadUrl!, {
+        pageRanges: current.pageRanges,
+      });
+      apply({ pdfId });
+    }
+
+    await waitForPdf(provider, current.pdfId!, { signal, onProgress });
+    throwIfCancelled();
+    apply({ progress: { phase: 'downloading', percentDone: 100 } });
+    const pages = await provider.fetchPages(current.pdfId!, { pageRanges: current.pageRanges });
+    await saveJobLayout(current, pages.map(page => page.layout));
+    mmd = pages.length > 0 ? joinPages(pages) : await provider.fetchMmd(current.pdfId!);
+  }
+
+  if (!mmd) {
+    throw new Error('No content was generated from the file');
+  }
+
+  throwIfCancelled();
+  return completeJob(current, mmd, apply);
+}
@@ -0,0 +1,94 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './firebase';
+import { UserRole } from '../types/auth';
+
+// Uploaded originals and their MMD, versions and layouts count as documents
+export interface StorageUsage {
+  documents: number;
+  answers: number;
+  updatedAt?: string;
+}
+
+export interface StorageQuota {
+  maxFileSize: number;
+  maxTotalSize: number;
+}
+
+const MB = 1024 * 1024;
+
+// Keep in sync with maxFileSize() and maxTotalSize() in storage.rules, which
+// enforce both against the ledger kept by the usage functions
+export const STORAGE_QUOTAS: Record<UserRole, StorageQuota> = {
+  free: { maxFileSize: 5 * MB, maxTotalSize: 100 * MB },
+  subscriber: { maxFileSize: 25 * MB, maxTotalSize: 2048 * MB },
+};
+
+export class QuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaError';
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${(bytes / 1024 / MB).toFixed(2)} GB`;
+}
+
+export function totalUsage(usage: StorageUsage): number {
+  return usage.documents + usage.answers;
+}
+
+const usageRef = (userId: string) => doc(db, 'users', userId, 'usage', 'storage');
+
+// Rebuilds the ledger from what is actually stored. Only the usage functions
+// can write the ledger, so this runs there too.
+export async function recalculateUsage(): Promise<StorageUsage> {
+  try {
+    const { data: usage } = await httpsCallable<void, StorageUsage>(functions, 'recalculateUsage')();
+    console.log('Recalculated storage usage:', usage);
+    return usage;
+  } catch (error) {
+    console.error('Error recalculating storage usage:', error);
+    throw error;
+  }
+}
+
+// Users who uploaded before the ledger existed get it built on first use
+export async function fetchUsage(userId: string): Promise<StorageUsage> {
+  try {
+    const snapshot = await getDoc(usageRef(userId));
+    if (!snapshot.exists()) {
+      return recalculateUsage();
+    }
+    const data = snapshot.data();
+    return { documents: data.documents ?? 0, answers: data.answers ?? 0, updatedAt: data.updatedAt };
+  } catch (error) {
+    console.error('Error fetching storage usage:', error);
+    throw error;
+  }
+}
+
+export function checkFileSize(role: UserRole, size: number, label = 'File'): void {
+  const { maxFileSize } = STORAGE_QUOTAS[role];
+  if (size > maxFileSize) {
+    throw new QuotaError(`${label} exceeds the ${formatBytes(maxFileSize)} limit (${formatBytes(size)})`);
+  }
+}
+
+// Checks both limits before uploading, so the storage rules rarely have to refuse one
+export async function checkQuota(userId: string, role: UserRole, size: number): Promise<void> {
+  checkFileSize(role, size);
+
+  const { maxTotalSize } = STORAGE_QUOTAS[role];
+  const used = totalUsage(await fetchUsage(userId));
+  if (used + size > maxTotalSize) {
+    throw new QuotaError(
+      `Not enough storage left: ${formatBytes(used)} of ${formatBytes(maxTotalSize)} used. ` +
+      'Delete documents from the trash or upgrade to store more.'
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { db, storage } from './firebase';
+import { ref, uploadBytes } from 'firebase/storage';
+import { collection, doc, getDocs, orderBy, query, setDoc } from 'firebase/firestore';
+import {
+  DocumentRecord,
+  fetchDocumentRecord,
+  getPageNumbers,
+  loadMmdFromPath,
+  mmdPath,
+  saveMmd,
+  updateDocumentRecord,
+} from './documents';
+import { cacheContent } from './sync';
+import { markDocumentExercisesStale } from './exercises';
+
+// What produced a version's content
+export type VersionSource = 'ocr' | 'edit' | 'import' | 'revert';
+
+/**
+ * Every content change of a document is stored as a version, the newest being
+ * the current MMD. Documents created before versions existed get their
+ * original content recorded the first time they change.
+ */
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  path: string;
+  source: VersionSource;
+  // The OCR provider, imported filename or user that produced the content
+  author?: string;
+  // Set on reverts to the version that was restored
+  revertedFrom?: string;
+  // In bytes, like DocumentRecord.size
+  size: number;
+  createdAt: string;
+}
+
+export interface ContentChange {
+  source: VersionSource;
+  author?: string;
+  revertedFrom?: string;
+}
+
+export function versionPath(userId: string, documentId: string, versionId: string): string {
+  return `users/${userId}/versions/${documentId}/${versionId}.mmd`;
+}
+
+const versionsRef = (userId: string, documentId: string) =>
+  collection(db, 'users', userId, 'documents', documentId, 'versions');
+
+// Firestore rejects undefined fields
+const withoutUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+export async function saveVersion(
+  userId: string,
+  documentId: string,
+  content: string,
+  change: ContentChange
+): Promise<DocumentVersion> {
+  try {
+    const versionRef = doc(versionsRef(userId, documentId));
+    const versionBlob = new Blob([content], { type: 'text/markdown' });
+    const version: DocumentVersion = {
+      ...change,
+      id: versionRef.id,
+      documentId,
+      path: versionPath(userId, documentId, versionRef.id),
+      size: versionBlob.size,
+      createdAt: new Date().toISOString(),
+    };
+
+    await uploadBytes(ref(storage, version.path), versionBlob);
+    await setDoc(versionRef, withoutUndefined(version));
+    console.log('Saved document version:', documentId, version.id, change.source);
+    return version;
+  } catch (error) {
+    console.error('Error saving document version:', error);
+    throw error;
+  }
+}
+
+// Newest first
+export async function fetchVersions(userId: string, documentId: string): Promise<DocumentVersion[]> {
+  try {
+    const snapshot = await getDocs(query(versionsRef(userId, documentId), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(version => ({ ...version.data(), id: version.id }) as DocumentVersion);
+  } catch (error) {
+    console.error('Error fetching document versions:', error);
+    throw error;
+  }
+}
+
+export async function loadVersionContent(version: DocumentVersion): Promise<string> {
+  return loadMmdFromPath(version.path);
+}
+
+const originalSource = (record: DocumentRecord | null): ContentChange =>
+  record?.sourceType === 'import'
+    ? { source: 'import', author: record.sourceFilename }
+    : { source: 'ocr' };
+
+/**
+ * Replaces a document's MMD and records the new content as a version. The
+ * exercise sets analyzed from the old content are marked stale.
+ */
+export async function updateDocumentContent(
+  userId: string,
+  documentId: string,
+  previousContent: string,
+  content: string,
+  change: ContentChange
+): Promise<DocumentVersion> {
+  try {
+    const versions = await fetchVersions(userId, documentId);
+    if (versions.length === 0) {
+      const record = await fetchDocumentRecord(userId, documentId);
+      await saveVersion(userId, documentId, previousContent, originalSource(record));
+    }
+
+    const version = await saveVersion(userId, documentId, content, change);
+    await saveMmd(userId, documentId, content);
+    await updateDocumentRecord(userId, documentId, {
+      mmdPath: mmdPath(userId, documentId),
+      pages: getPageNumbers(content),
+      size: new Blob([content]).size,
+    });
+    await cacheContent(userId, documentId, content);
+    await markDocumentExercisesStale(userId, documentId);
+    return version;
+  } catch (error) {
+    console.error('Error updating document content:', error);
+    throw error;
+  }
+}
+
+export async function revertToVersion(
+  userId: string,
+  version: DocumentVersion,
+  currentContent: string,
+  author?: string
+): Promise<string> {
+  const content = await loadVersionContent(version);
+  await updateDocumentContent(userId, version.documentId, currentContent, content, {
+    source: 'revert',
+    author,
+    revertedFrom: version.id,
+  });
+  return content;
+}
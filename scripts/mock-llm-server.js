@@ -0,0 +1,113 @@
+/* eslint-env node */
+/**
+ * OpenAI-compatible stand-in that answers chat completions with canned JSON,
+ * for offline development and automated tests. Point the app at it with
+ * EXPO_PUBLIC_LLM_BASE_URL=http://localhost:8787/v1
+ *
+ * Responses are read from <fixtures>/<task>.json, the task coming from the
+ * X-LLM-Task header (analyze, solve or validate). A fixture holding an array
+ * is served one entry per request, repeating the last one, which lets tests
+ * script e.g. an invalid analysis followed by its correction.
+ *
+ * Environment: MOCK_LLM_PORT (8787), MOCK_LLM_FIXTURES (scripts/mock-llm),
+ * MOCK_LLM_DELAY_MS (0).
+ */
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.MOCK_LLM_PORT) || 8787;
+const FIXTURES = path.resolve(process.env.MOCK_LLM_FIXTURES || path.join(__dirname, 'mock-llm'));
+const DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS) || 0;
+
+const requestCounts = {};
+
+// Rough estimate, close enough to exercise usage reporting
+const countTokens = text => Math.ceil(text.length / 4);
+
+function loadResponse(task) {
+  const file = path.join(FIXTURES, `${task}.json`);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(fixture)) {
+    return fixture;
+  }
+  const index = requestCounts[task] = (requestCounts[task] ?? -1) + 1;
+  return fixture[Math.min(index, fixture.length - 1)];
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function completion(model, task, prompt, response) {
+  // Fixtures given as strings are returned verbatim, e.g. to simulate broken JSON
+  const content = typeof response === 'string' ? response : JSON.stringify(response);
+  const promptTokens = countTokens(prompt);
+  const completionTokens = countTokens(content);
+
+  return {
+    id: `chatcmpl-mock-${task}-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+async function handleCompletion(req, res) {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+
+  const request = JSON.parse(body || '{}');
+  const task = req.headers['x-llm-task'] || 'analyze';
+  const response = loadResponse(task);
+  if (response === null) {
+    send(res, 404, { error: { message: `No fixture for task "${task}" in ${FIXTURES}`, type: 'not_found' } });
+    return;
+  }
+
+  const prompt = (request.messages || []).map(message => message.content).join('\n');
+  console.log(`[mock-llm] ${task} (${request.model}), ${request.messages?.length ?? 0} messages`);
+  if (DELAY_MS > 0) {
+    await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+  }
+  send(res, 200, completion(request.model || 'mock', task, prompt, response));
+}
+
+const server = http.createServer((req, res) => {
+  const url = req.url.split('?')[0].replace(/\/+$/, '');
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204, {});
+  } else if (req.method === 'POST' && url.endsWith('/chat/completions')) {
+    handleCompletion(req, res).catch(error => {
+      console.error('[mock-llm] Request failed:', error);
+      send(res, 500, { error: { message: error.message, type: 'server_error' } });
+    });
+  } else if (req.method === 'GET' && url.endsWith('/models')) {
+    send(res, 200, { object: 'list', data: [{ id: 'mock', object: 'model', owned_by: 'mock' }] });
+  } else {
+    send(res, 404, { error: { message: `Unknown endpoint ${req.method} ${url}`, type: 'not_found' } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-llm] Listening on http://localhost:${PORT}/v1, fixtures from ${FIXTURES}`);
+});
@@ -19,13 +19,24 @@ interface AuthState {
   setError: (error: string | null) => void;
 }
 
-const createUserProfile = (firebaseUser: FirebaseUser): User => ({
-  uid: firebaseUser.uid,
-  email: firebaseUser.email,
-  subscription: {
-    role: 'free' as UserRole,
-  },
-});
+// The role is a custom claim set by the billing backend, so storage rules can check it too
+const createUserProfile = async (firebaseUser: FirebaseUser): Promise<User> => {
+  let role: UserRole = 'free';
+  try {
+    const { claims } = await firebaseUser.getIdTokenResult();
+    if (claims.role === 'subscriber') {
+      role = 'subscriber';
+    }
+  } catch (error) {
+    console.error('Error loading subscription role:', error);
+  }
+
+  return {
+    uid: firebaseUser.uid,
+    email: firebaseUser.email,
+    subscription: { role },
+  };
+};
 
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
@@ -35,7 +46,7 @@ export const useAuthStore = create<AuthState>((set) => ({
     try {
       set({ error: null, loading: true });
       const { user: firebaseUser } = await createUserWithEmailAndPassword(auth, email, password);
-      const user = createUserProfile(firebaseUser);
+      const user = await createUserProfile(firebaseUser);
       set({ user, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
@@ -45,7 +56,7 @@ export const useAuthStore = create<AuthState>((set) => ({
     try {
       set({ error: null, loading: true });
       const { user: firebaseUser } = await signInWithEmailAndPassword(auth, email, password);
-      const user = createUserProfile(firebaseUser);
+      const user = await createUserProfile(firebaseUser);
       set({ user, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
@@ -63,9 +74,9 @@ export const useAuthStore = create<AuthState>((set) => ({
 }));
 
 // Set up auth state listener
-onAuthStateChanged(auth, (firebaseUser) => {
+onAuthStateChanged(auth, async (firebaseUser) => {
   useAuthStore.setState({
-    user: firebaseUser ? createUserProfile(firebaseUser) : null,
+    user: firebaseUser ? await createUserProfile(firebaseUser) : null,
     loading: false,
   });
 });
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import {
+  Folder,
+  createFolder,
+  deleteFolder,
+  fetchFolders,
+  getCachedFolders,
+  renameFolder,
+} from '../lib/folders';
+
+// Shared by the Documents and Exercises tabs so both see the same folders
+interface FolderState {
+  userId: string | null;
+  folders: Folder[];
+  load: (userId: string) => Promise<void>;
+  create: (name: string) => Promise<Folder | null>;
+  rename: (folder: Folder, name: string) => Promise<void>;
+  remove: (folder: Folder) => Promise<void>;
+}
+
+const byName = (folders: Folder[]) => [...folders].sort((a, b) => a.name.localeCompare(b.name));
+
+export const useFolderStore = create<FolderState>((set, get) => ({
+  userId: null,
+  folders: [],
+
+  load: async (userId: string) => {
+    set({ userId, folders: await getCachedFolders(userId) });
+    set({ folders: await fetchFolders(userId) });
+  },
+
+  create: async (name: string) => {
+    const { userId } = get();
+    if (!userId) return null;
+
+    const folder = await createFolder(userId, name);
+    set(state => ({ folders: byName([...state.folders, folder]) }));
+    return folder;
+  },
+
+  rename: async (folder: Folder, name: string) => {
+    const { userId } = get();
+    if (!userId) return;
+
+    const renamed = await renameFolder(userId, folder, name);
+    set(state => ({
+      folders: byName(state.folders.map(existing => (existing.id === folder.id ? renamed : existing))),
+    }));
+  },
+
+  remove: async (folder: Folder) => {
+    const { userId } = get();
+    if (!userId) return;
+
+    await deleteFolder(userId, folder);
+    set(state => ({ folders: state.folders.filter(existing => existing.id !== folder.id) }));
+  },
+}));
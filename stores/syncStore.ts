@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  SyncCollection,
+  SyncState,
+  flushOutbox,
+  getSyncStates,
+  itemKey,
+  onSyncStatesChanged,
+} from '../lib/sync';
+
+interface SyncStoreState {
+  userId: string | null;
+  online: boolean;
+  states: Record<string, SyncState>;
+  start: (userId: string) => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+let unsubscribers: (() => void)[] = [];
+
+export const useSyncStore = create<SyncStoreState>((set, get) => ({
+  userId: null,
+  online: true,
+  states: {},
+
+  start: async (userId: string) => {
+    if (get().userId === userId) return;
+
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    set({ userId, states: await getSyncStates(userId) });
+
+    unsubscribers = [
+      onSyncStatesChanged(states => {
+        if (get().userId === userId) {
+          set({ states });
+        }
+      }),
+      // Queued writes go out as soon as the connection comes back
+      NetInfo.addEventListener(state => {
+        const online = !!state.isConnected && state.isInternetReachable !== false;
+        const wasOnline = get().online;
+        set({ online });
+        if (online && !wasOnline) {
+          console.log('Back online, syncing queued changes');
+          get().flush();
+        }
+      }),
+    ];
+
+    await get().flush();
+  },
+
+  flush: async () => {
+    const { userId } = get();
+    if (!userId) return;
+
+    try {
+      await flushOutbox(userId);
+    } catch (error) {
+      console.error('Error syncing queued changes:', error);
+    }
+  },
+}));
+
+export function useSyncState(collection: SyncCollection, key: string | undefined): SyncState | undefined {
+  return useSyncStore(state => (key ? state.states[itemKey(collection, key)] : undefined));
+}
+
+export function usePendingCount(): number {
+  return useSyncStore(state =>
+    Object.values(state.states).filter(syncState => syncState === 'pending').length
+  );
+}
@@ -0,0 +1,192 @@
+import { create } from 'zustand';
+import {
+  UploadJob,
+  UploadJobInput,
+  UploadJobResult,
+  ScanJobInput,
+  createUploadJob,
+  createScanJob,
+  createReprocessJob,
+  isActiveJob,
+  loadUploadJobs,
+  saveUploadJobs,
+  runUploadJob,
+  completeReviewedJob,
+} from '../lib/uploadJobs';
+import { OcrError, OcrErrorCode } from '../lib/ocr';
+import { DocumentRecord, updateDocumentRecord } from '../lib/documents';
+import { UserRole } from '../types/auth';
+
+type JobCompletedListener = (job: UploadJob, result: UploadJobResult) => void;
+
+interface UploadQueueState {
+  userId: string | null;
+  jobs: UploadJob[];
+  hydrate: (userId: string) => Promise<void>;
+  enqueue: (userId: string, input: UploadJobInput, role: UserRole) => void;
+  enqueueScan: (userId: string, input: ScanJobInput, role: UserRole) => void;
+  retry: (jobId: string) => void;
+  reprocess: (jobId: string) => void;
+  recognizeAgain: (record: DocumentRecord) => Promise<void>;
+  cancel: (jobId: string) => void;
+  acceptReview: (jobId: string, mmd: string) => Promise<void>;
+  remove: (jobId: string) => void;
+  clearFinished: () => void;
+}
+
+const completedListeners = new Set<JobCompletedListener>();
+const abortControllers = new Map<string, AbortController>();
+let draining = false;
+
+export function onJobCompleted(listener: JobCompletedListener): () => void {
+  completedListeners.add(listener);
+  return () => {
+    completedListeners.delete(listener);
+  };
+}
+
+const updateJob = (jobId: string, changes: Partial<UploadJob>) => {
+  useUploadQueueStore.setState(state => ({
+    jobs: state.jobs.map(job =>
+      job.id === jobId ? { ...job, ...changes, updatedAt: Date.now() } : job
+    ),
+  }));
+};
+
+const notifyCompleted = (jobId: string, result: UploadJobResult) => {
+  const completedJob = useUploadQueueStore.getState().jobs.find(job => job.id === jobId);
+  if (completedJob) {
+    completedListeners.forEach(listener => listener(completedJob, result));
+  }
+};
+
+// Jobs are processed one at a time so polling doesn't hammer the OCR API
+const drainQueue = async () => {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (true) {
+      const next = useUploadQueueStore.getState().jobs.find(isActiveJob);
+      if (!next) break;
+
+      const controller = new AbortController();
+      abortControllers.set(next.id, controller);
+
+      try {
+        const result = await runUploadJob(next, changes => updateJob(next.id, changes), controller.signal);
+        if (result) {
+          notifyCompleted(next.id, result);
+        }
+      } catch (error: any) {
+        // Failed uploads stay in the index but out of the document list; a failed
+        // re-recognition leaves the document as it was
+        const documentId = useUploadQueueStore.getState().jobs.find(job => job.id === next.id)?.documentId;
+        if (documentId && !next.replaceContent) {
+          updateDocumentRecord(next.userId, documentId, { state: 'failed' }).catch(() => {});
+        }
+
+        if (error instanceof OcrError && error.code === OcrErrorCode.CANCELLED) {
+          updateJob(next.id, { state: 'cancelled', error: undefined });
+        } else {
+          console.error('Upload job failed:', next.id, error);
+          updateJob(next.id, {
+            state: 'failed',
+            error: error.message || 'Error processing file',
+          });
+        }
+      } finally {
+        abortControllers.delete(next.id);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+export const useUploadQueueStore = create<UploadQueueState>((set, get) => ({
+  userId: null,
+  jobs: [],
+  hydrate: async (userId: string) => {
+    if (get().userId === userId) return;
+
+    const jobs = await loadUploadJobs(userId);
+    console.log('Restored upload jobs:', jobs.length);
+    set(state => ({
+      userId,
+      jobs: [...state.jobs.filter(job => job.userId === userId), ...jobs],
+    }));
+    drainQueue();
+  },
+  enqueue: (userId: string, input: UploadJobInput, role: UserRole) => {
+    const job = createUploadJob(userId, input, role);
+    set(state => ({ jobs: [job, ...state.jobs] }));
+    drainQueue();
+  },
+  enqueueScan: (userId: string, input: ScanJobInput, role: UserRole) => {
+    const job = createScanJob(userId, input, role);
+    set(state => ({ jobs: [job, ...state.jobs] }));
+    drainQueue();
+  },
+  retry: (jobId: string) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || isActiveJob(job)) return;
+
+    updateJob(jobId, { state: 'queued', error: undefined });
+    drainQueue();
+  },
+  reprocess: (jobId: string) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || !job.duplicateOf) return;
+
+    updateJob(jobId, { state: 'queued', duplicateOf: undefined, replaceContent: true, error: undefined });
+    drainQueue();
+  },
+  recognizeAgain: async (record: DocumentRecord) => {
+    const { userId } = get();
+    if (!userId) return;
+
+    const job = await createReprocessJob(userId, record);
+    set(state => ({ jobs: [job, ...state.jobs] }));
+    drainQueue();
+  },
+  cancel: (jobId: string) => {
+    const controller = abortControllers.get(jobId);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateJob(jobId, { state: 'cancelled' });
+    }
+  },
+  acceptReview: async (jobId: string, mmd: string) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || job.state !== 'review') return;
+
+    try {
+      const result = await completeReviewedJob(job, mmd, changes => updateJob(jobId, changes));
+      notifyCompleted(jobId, result);
+    } catch (error: any) {
+      console.error('Error completing reviewed job:', error);
+      updateJob(jobId, { error: error.message || 'Error saving content' });
+      throw error;
+    }
+  },
+  remove: (jobId: string) => {
+    const job = get().jobs.find(j => j.id === jobId);
+    if (!job || isActiveJob(job)) return;
+
+    set(state => ({ jobs: state.jobs.filter(j => j.id !== jobId) }));
+  },
+  clearFinished: () => {
+    set(state => ({
+      jobs: state.jobs.filter(job => isActiveJob(job) || job.state === 'review'),
+    }));
+  },
+}));
+
+// Persist every change so jobs survive app restarts
+useUploadQueueStore.subscribe((state, prevState) => {
+  if (state.userId && state.jobs !== prevState.jobs) {
+    saveUploadJobs(state.userId, state.jobs);
+  }
+});
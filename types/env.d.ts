@@ -4,6 +4,12 @@ declare global {
       EXPO_PUBLIC_MATHPIX_APP_ID: string;
       EXPO_PUBLIC_MATHPIX_APP_KEY: string;
       EXPO_PUBLIC_OPENAI_API_KEY: string;
+      EXPO_PUBLIC_OCR_PROVIDER?: 'mathpix' | 'local';
+      EXPO_PUBLIC_LLM_BASE_URL?: string;
+      EXPO_PUBLIC_LLM_MODEL_ANALYZE?: string;
+      EXPO_PUBLIC_LLM_MODEL_SOLVE?: string;
+      EXPO_PUBLIC_LLM_MODEL_VALIDATE?: string;
+      EXPO_PUBLIC_LLM_TIMEOUT_MS?: string;
     }
   }
 }